@@ -0,0 +1,254 @@
+// Replays evals/cases.json through the agent against the fake Seerr and OMDb,
+// using the real model, and prints a pass/fail report. Run it before and after
+// changing SYSTEM_PROMPT or CLAUDE_MODEL and diff the two reports.
+//
+//   pnpm eval [--out report.txt] [case-id ...]
+import { mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { parseArgs } from "node:util";
+import type { RequesterContext } from "../src/agent/index.js";
+import type { ChatMessage, ContentBlock, ToolCallBlock } from "../src/types/index.js";
+import { loadFixture } from "../test/helpers/fake-server.js";
+import { createFakeOmdb, createFakeSeerr } from "../test/helpers/fake-services.js";
+
+interface ToolExpectation {
+  name: string;
+  /**
+   * Arguments the call must include. Strings match case-insensitively as
+   * substrings, arrays must match element by element, other values exactly.
+   */
+  input?: Record<string, unknown>;
+}
+
+interface EvalCase {
+  id: string;
+  utterance: string;
+  history?: ChatMessage[];
+  /** Discord role IDs of the requester; "manager" is a manager role */
+  roles?: string[];
+  expect: {
+    /** Calls that must happen in this order; other calls may come between */
+    tools?: ToolExpectation[];
+    /** Calls that must not happen at all */
+    forbidden?: ToolExpectation[];
+    output?: { includes?: string[]; excludes?: string[]; maxLength?: number };
+  };
+}
+
+interface ToolCall {
+  name: string;
+  input: Record<string, unknown>;
+}
+
+const MANAGER_ROLE_ID = "manager";
+const AVAILABLE = 5; // MediaStatus.AVAILABLE
+
+const { values: options, positionals: caseIds } = parseArgs({
+  options: { out: { type: "string" } },
+  allowPositionals: true,
+});
+
+const fakeSeerr = createFakeSeerr();
+const fakeOmdb = createFakeOmdb();
+await Promise.all([fakeSeerr.start(), fakeOmdb.start()]);
+const dataDir = mkdtempSync(join(tmpdir(), "seerr-bot-eval-"));
+// Default settings for every case, whatever the local config.json says
+const configFile = join(dataDir, "config.json");
+writeFileSync(configFile, "{}");
+
+// Everything except the Anthropic settings points at the fakes. dotenv never
+// overrides variables that are already set, so .env can't undo this.
+Object.assign(process.env, {
+  DISCORD_BOT_TOKEN: "eval-token",
+  DISCORD_MANAGER_ROLE_IDS: MANAGER_ROLE_ID,
+  APPROVAL_CHANNEL_ID: "",
+  SEERR_URL: fakeSeerr.url,
+  SEERR_API_KEY: "eval-seerr-key",
+  SEERR_PUBLIC_URL: "",
+  OMDB_URL: fakeOmdb.url,
+  OMDB_API_KEY: "eval-omdb-key",
+  DATA_DIR: dataDir,
+  CONFIG_FILE: configFile,
+  SESSION_STORE: "memory",
+  FALLBACK_PARSER_ONLY: "false",
+  WEBHOOK_PORT: "",
+  REQUEST_GENRE_DEFAULTS: "",
+  ENABLE_4K: "false",
+  HTTP_RETRIES: "0",
+  CACHE_METADATA_TTL_SECONDS: "0.001",
+  CACHE_RATINGS_TTL_SECONDS: "0.001",
+  CACHE_STATUS_TTL_SECONDS: "0.001",
+});
+
+// Loaded after the env is in place, since config is read at import time
+const { LLM_DOWN_HELP, LLM_DOWN_NOTE, processMediaRequest } = await import(
+  "../src/agent/index.js"
+);
+const { config } = await import("../src/config.js");
+
+// The fields of search results and details that matter here
+interface FixtureMedia {
+  id: number;
+  mediaInfo?: { status: number };
+}
+
+// Titles the fixtures mark as Available, which must never be requested
+function findAvailableTitles(): Set<number> {
+  const ids = new Set<number>();
+  const dir = new URL("../test/fixtures/", import.meta.url);
+  for (const file of readdirSync(dir).filter((f) => f.startsWith("seerr-"))) {
+    const fixture = loadFixture<FixtureMedia & { results?: FixtureMedia[] }>(file);
+    for (const media of fixture.results ?? [fixture]) {
+      if (media.mediaInfo?.status === AVAILABLE) ids.add(media.id);
+    }
+  }
+  return ids;
+}
+
+function matches(expected: unknown, actual: unknown): boolean {
+  if (typeof expected === "string") {
+    return typeof actual === "string" && actual.toLowerCase().includes(expected.toLowerCase());
+  }
+  if (Array.isArray(expected)) {
+    return (
+      Array.isArray(actual) &&
+      actual.length === expected.length &&
+      expected.every((value, i) => matches(value, actual[i]))
+    );
+  }
+  if (expected && typeof expected === "object") {
+    if (!actual || typeof actual !== "object") return false;
+    const record = actual as Record<string, unknown>;
+    return Object.entries(expected).every(([key, value]) => matches(value, record[key]));
+  }
+  return expected === actual;
+}
+
+function matchesCall(expected: ToolExpectation, call: ToolCall): boolean {
+  return expected.name === call.name && matches(expected.input ?? {}, call.input);
+}
+
+function describeCall(call: ToolExpectation): string {
+  return call.input ? `${call.name} ${JSON.stringify(call.input)}` : call.name;
+}
+
+// Every tool_use block the model produced, in order
+function extractToolCalls(messages: ChatMessage[]): ToolCall[] {
+  return messages
+    .filter((message) => message.role === "assistant" && Array.isArray(message.content))
+    .flatMap((message) => message.content as ContentBlock[])
+    .filter((block): block is ToolCallBlock => block.type === "tool_use")
+    .map((block) => ({ name: block.name, input: block.input }));
+}
+
+function checkCase(
+  evalCase: EvalCase,
+  calls: ToolCall[],
+  output: string,
+  availableTitles: Set<number>
+): string[] {
+  const failures: string[] = [];
+  const { tools = [], forbidden = [], output: constraints = {} } = evalCase.expect;
+
+  let position = 0;
+  for (const expected of tools) {
+    const index = calls.findIndex((call, i) => i >= position && matchesCall(expected, call));
+    if (index === -1) {
+      failures.push(`missing call: ${describeCall(expected)}`);
+    } else {
+      position = index + 1;
+    }
+  }
+
+  for (const rule of forbidden) {
+    if (calls.some((call) => matchesCall(rule, call))) {
+      failures.push(`forbidden call: ${describeCall(rule)}`);
+    }
+  }
+
+  // Rules that hold for every case
+  for (const call of calls.filter((c) => c.name === "request_media")) {
+    if (availableTitles.has(call.input.tmdbId as number)) {
+      failures.push(`requested an Available title: TMDB:${call.input.tmdbId}`);
+    }
+    if ((call.input.seasons as number[] | undefined)?.includes(0)) {
+      failures.push("requested season 0 (specials)");
+    }
+  }
+
+  const lowerOutput = output.toLowerCase();
+  for (const text of constraints.includes ?? []) {
+    if (!lowerOutput.includes(text.toLowerCase())) failures.push(`output lacks "${text}"`);
+  }
+  for (const text of constraints.excludes ?? []) {
+    if (lowerOutput.includes(text.toLowerCase())) failures.push(`output contains "${text}"`);
+  }
+  if (constraints.maxLength && output.length > constraints.maxLength) {
+    failures.push(`output is ${output.length} characters (max ${constraints.maxLength})`);
+  }
+
+  return failures;
+}
+
+async function runCase(evalCase: EvalCase, availableTitles: Set<number>): Promise<string[]> {
+  fakeSeerr.requests.length = 0;
+  fakeOmdb.requests.length = 0;
+
+  const requester: RequesterContext = {
+    discordId: `eval-${evalCase.id}`,
+    discordTag: "eval",
+    roleIds: evalCase.roles ?? [],
+  };
+  const response = await processMediaRequest(evalCase.utterance, requester, evalCase.history);
+  const calls = extractToolCalls(response.messages);
+  const failures = checkCase(evalCase, calls, response.result, availableTitles);
+  // When the first model call fails the command parser answers instead, which
+  // can still pass the checks. Later API errors get an apology and no assistant turn.
+  const usedFallback =
+    response.result === LLM_DOWN_HELP || response.result.startsWith(LLM_DOWN_NOTE);
+  if (usedFallback) {
+    failures.unshift("model call failed, the command parser answered (see log)");
+  } else if (response.messages.at(-1)?.role !== "assistant") {
+    failures.unshift("agent error (see log)");
+  }
+
+  return [
+    `${failures.length ? "FAIL" : "PASS"} ${evalCase.id}`,
+    `  tools: ${calls.map(describeCall).join(" > ") || "(none)"}`,
+    ...failures.map((failure) => `  - ${failure}`),
+  ];
+}
+
+const allCases: EvalCase[] = JSON.parse(
+  readFileSync(new URL("./cases.json", import.meta.url), "utf8")
+);
+const unknownIds = caseIds.filter((id) => !allCases.some((c) => c.id === id));
+if (unknownIds.length) {
+  throw new Error(`Unknown eval cases: ${unknownIds.join(", ")}`);
+}
+const cases = caseIds.length ? allCases.filter((c) => caseIds.includes(c.id)) : allCases;
+const availableTitles = findAvailableTitles();
+
+const report = [`model: ${config.llm.model}`, ""];
+let passed = 0;
+try {
+  for (const evalCase of cases) {
+    const lines = await runCase(evalCase, availableTitles);
+    if (lines[0].startsWith("PASS")) passed++;
+    report.push(...lines);
+  }
+} finally {
+  await Promise.all([fakeSeerr.stop(), fakeOmdb.stop()]);
+  rmSync(dataDir, { recursive: true, force: true });
+}
+report.push("", `passed ${passed}/${cases.length}`);
+
+const text = report.join("\n") + "\n";
+if (options.out) {
+  writeFileSync(options.out, text);
+  console.log(`Report written to ${options.out} (passed ${passed}/${cases.length})`);
+} else {
+  console.log(`\n${text}`);
+}
+process.exitCode = passed === cases.length ? 0 : 1;
@@ -1,20 +1,62 @@
-import Anthropic from "@anthropic-ai/sdk";
 import { config } from "../config.js";
 import { seerr } from "../services/seerr.js";
 import { omdb } from "../services/omdb.js";
+import { llm } from "../services/llm.js";
+import { ApiError, OmdbApiError, SeerrApiError } from "../services/http.js";
 import { TMDB_IMAGE_BASE, MOVIE_GENRE_MAP, TV_GENRE_MAP } from "../constants.js";
 import {
   getMediaStatusText,
   getRequestStatusText,
   formatErrorMessage,
   formatMediaResult,
+  getMissingSeasons,
+  getRequesterName,
+  getSeasonStatuses,
 } from "../utils.js";
-import type { MediaRequestItem, RTRating, RequestFilter } from "../types/index.js";
-import { RequestStatus } from "../types/index.js";
-
-const anthropic = new Anthropic({
-  apiKey: config.anthropic.apiKey,
-});
+import { getSeerrUserName } from "../users.js";
+import {
+  canManageRequests,
+  canModifyRequest,
+  checkToolEnabled,
+  checkToolPermission,
+  isToolEnabled,
+} from "../permissions.js";
+import { requestTracker } from "../tracking.js";
+import { usageTracker } from "../usage.js";
+import {
+  FEATURE_DESCRIPTIONS,
+  settings,
+  type FeatureToggles,
+  type ScopeSettings,
+} from "../settings.js";
+import { checkQuota, formatQuotaStatus, getQuota } from "../quota.js";
+import { approvalQueue } from "../queue.js";
+import { FALLBACK_EXAMPLES, parseCommand, type FallbackCommand } from "../fallback.js";
+import {
+  describeServiceOptions,
+  mergeGenreDefaults,
+  resolveRequestOptions,
+} from "../profiles.js";
+import type {
+  ChatMessage,
+  ChatResponse,
+  DiscoverResult,
+  MediaInfo,
+  MediaRequestItem,
+  RTRating,
+  RequestFilter,
+  RequestListOptions,
+  RequestOptions,
+  RequestOverrides,
+  SearchResult,
+  SeerrUser,
+  TextBlock,
+  ToolCallBlock,
+  ToolDefinition,
+  ToolResultBlock,
+  TvDetails,
+} from "../types/index.js";
+import { MediaStatus, RequestStatus } from "../types/index.js";
 
 const SYSTEM_PROMPT = `You are Seerr Bot, an assistant for requesting movies and TV shows through Seerr.
 
@@ -31,11 +73,26 @@ For TV shows, understand these season patterns:
 - "all seasons" = all available (1 through numberOfSeasons)
 - "seasons 1-3" or "first 3 seasons" = [1, 2, 3]
 - "new season" usually means the latest/most recent season
+- "the rest of it", "the missing seasons", "what I don't have" = request_media with missingOnly: true (no seasons list needed)
+
+If the user asks for a quality profile, root folder, server or tags ("in the anime folder", "use the 1080p profile"), pass them to request_media by name. Use list_request_options to see what exists. Otherwise leave them out so server defaults apply.
+
+get_media_details lists each season's availability. For "Partially Available" shows, tell the user which seasons are missing.
+Use get_season_episodes when the user asks about the episodes of a specific season.
+
+## Quotas
+Seerr may limit how many movies and TV seasons a user can request in a rolling window. Use get_quota when the user asks how many requests they have left.
+If request_media reports the quota would be exceeded, nothing was submitted: relay the offer to trim the season list and only request again once the user agrees.
 
 ## Managing Requests
-- list_requests: show pending requests (or filter by: approved, processing, available, failed)
+- my_requests: show the user's own requests ("what have I requested?", "what did I ask for last month?"). Turn relative dates into since/until using today's date.
+- list_requests: show everyone's pending requests (or filter by: approved, processing, available, failed)
 - approve_request: approve a pending request by ID
 - decline_request: decline a pending request by ID
+- cancel_request: delete a pending request (users can cancel their own)
+- edit_request_seasons: change the seasons of a pending TV request (users can edit their own)
+- retry_request: retry a failed request (users can retry their own)
+Only admins may approve or decline, or touch other people's requests. If a tool returns "Permission denied", tell the user plainly and do not retry.
 
 ## Discovery
 You can help users discover content:
@@ -56,6 +113,9 @@ CRITICAL: When presenting discovery results, you MUST include for EACH item:
 2. The [POSTER:url] tag - this displays the image in Discord
 Copy these EXACTLY from the tool output. Do not drop or reformat them.
 
+## Paging Through Lists
+Search, discovery, similar-title and request lists come one page at a time. When the user asks for "more", "next page" or "go back" after any of them, use next_page.
+
 ## Response Formatting
 When presenting media details:
 - Include TMDB and IMDB links from tools
@@ -86,23 +146,48 @@ DO NOT offer to request media that is Pending, Requested, or Available.
 - Never request season 0 (specials) unless explicitly asked
 - For "latest season", get numberOfSeasons from details and request only that one
 - Keep responses concise - Discord has a 2000 character limit
-- Never request 4K versions
 - Be direct and factual - avoid filler phrases like "You're absolutely right" or "Great question"
 - Never use emojis in responses`;
 
+const GUIDELINE_4K = {
+  enabled:
+    "Only request 4K (is4k: true) when the user explicitly asks for 4K; otherwise request the regular version. Check the 4K Status, not the regular Status, before a 4K request",
+  disabled: "Never request 4K versions",
+};
+
+// The 4K rule and turned-off features depend on where the message came from
+function buildSystemPrompt(scope: ScopeSettings): string {
+  const lines = [SYSTEM_PROMPT, `- ${scope.enable4k ? GUIDELINE_4K.enabled : GUIDELINE_4K.disabled}`];
+  const disabled = (Object.keys(scope.features) as (keyof FeatureToggles)[]).filter(
+    (feature) => !scope.features[feature]
+  );
+  if (disabled.length > 0) {
+    lines.push(
+      `- Turned off in this server or channel: ${disabled.map((f) => FEATURE_DESCRIPTIONS[f]).join("; ")}. Those tools are unavailable; say so if asked.`
+    );
+  }
+  return lines.join("\n");
+}
+
+const PAGE_PROPERTY = {
+  type: "number",
+  description: "Page number, starting at 1. Default: 1",
+};
+
 // Tool definitions
-const tools: Anthropic.Tool[] = [
+const tools: ToolDefinition[] = [
   {
     name: "search_media",
     description:
       "Search Seerr for movies or TV shows by title. Returns a list of matching media with their TMDB IDs. Automatically handles year in query.",
-    input_schema: {
+    inputSchema: {
       type: "object" as const,
       properties: {
         query: {
           type: "string",
           description: "The search query (movie or TV show title, optionally with year)",
         },
+        page: PAGE_PROPERTY,
       },
       required: ["query"],
     },
@@ -111,7 +196,7 @@ const tools: Anthropic.Tool[] = [
     name: "get_media_details",
     description:
       "Get detailed information about a movie or TV show including IMDB ID, status, and seasons (for TV shows).",
-    input_schema: {
+    inputSchema: {
       type: "object" as const,
       properties: {
         tmdbId: { type: "number", description: "The TMDB ID of the media" },
@@ -128,7 +213,7 @@ const tools: Anthropic.Tool[] = [
     name: "verify_imdb",
     description:
       "Verify a media selection by checking its IMDB information.",
-    input_schema: {
+    inputSchema: {
       type: "object" as const,
       properties: {
         imdbId: { type: "string", description: "IMDB ID to look up directly" },
@@ -143,7 +228,7 @@ const tools: Anthropic.Tool[] = [
     name: "request_media",
     description:
       "Submit a media request to Seerr. For movies, no seasons needed. For TV shows, you MUST specify which seasons.",
-    input_schema: {
+    inputSchema: {
       type: "object" as const,
       properties: {
         tmdbId: { type: "number", description: "The TMDB ID of the media" },
@@ -153,14 +238,65 @@ const tools: Anthropic.Tool[] = [
           items: { type: "number" },
           description: "For TV: array of season numbers to request",
         },
+        missingOnly: {
+          type: "boolean",
+          description:
+            "For TV: request only seasons that are not available or already requested. If seasons are also given, only the missing ones among them are requested.",
+        },
+        server: {
+          type: "string",
+          description: "Radarr/Sonarr server name. Only when the user asks for a specific server.",
+        },
+        profile: {
+          type: "string",
+          description: 'Quality profile name, e.g. "1080p". Only when the user asks for one.',
+        },
+        rootFolder: {
+          type: "string",
+          description: 'Root folder path or part of it, e.g. "anime". Only when the user asks for one.',
+        },
+        tags: {
+          type: "array",
+          items: { type: "string" },
+          description: "Radarr/Sonarr tag labels to apply. Only when the user asks for them.",
+        },
+        is4k: {
+          type: "boolean",
+          description: "Request the 4K version. Only when the user explicitly asks for 4K.",
+        },
       },
       required: ["tmdbId", "mediaType"],
     },
   },
+  {
+    name: "get_season_episodes",
+    description: "List the episodes of one season of a TV show with air dates.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        tmdbId: { type: "number", description: "The TMDB ID of the TV show" },
+        seasonNumber: { type: "number", description: "The season number" },
+      },
+      required: ["tmdbId", "seasonNumber"],
+    },
+  },
+  {
+    name: "list_request_options",
+    description:
+      "List the Radarr/Sonarr servers, quality profiles, root folders and tags available for requests.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        mediaType: { type: "string", enum: ["movie", "tv"], description: "Movie (Radarr) or TV (Sonarr)" },
+        is4k: { type: "boolean", description: "Show the 4K servers instead" },
+      },
+      required: ["mediaType"],
+    },
+  },
   {
     name: "list_requests",
     description: "List media requests in Seerr. Default shows pending requests.",
-    input_schema: {
+    inputSchema: {
       type: "object" as const,
       properties: {
         filter: {
@@ -168,6 +304,32 @@ const tools: Anthropic.Tool[] = [
           enum: ["pending", "approved", "processing", "available", "failed"],
           description: "Filter by status. Default: pending",
         },
+        page: PAGE_PROPERTY,
+      },
+      required: [],
+    },
+  },
+  {
+    name: "my_requests",
+    description:
+      "List the requesting user's own requests across all statuses, newest first, with per-season progress for TV. Use since/until for questions like \"what did I ask for last month?\".",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        filter: {
+          type: "string",
+          enum: ["all", "pending", "approved", "processing", "available", "failed"],
+          description: "Filter by status. Default: all",
+        },
+        mediaType: { type: "string", enum: ["movie", "tv"], description: "Only movies or only TV" },
+        since: { type: "string", description: "Only requests made on or after this date (YYYY-MM-DD)" },
+        until: { type: "string", description: "Only requests made on or before this date (YYYY-MM-DD)" },
+        sortDirection: {
+          type: "string",
+          enum: ["desc", "asc"],
+          description: "desc = newest first (default), asc = oldest first",
+        },
+        page: PAGE_PROPERTY,
       },
       required: [],
     },
@@ -175,7 +337,7 @@ const tools: Anthropic.Tool[] = [
   {
     name: "approve_request",
     description: "Approve a pending media request.",
-    input_schema: {
+    inputSchema: {
       type: "object" as const,
       properties: {
         requestId: { type: "number", description: "The request ID to approve" },
@@ -186,7 +348,7 @@ const tools: Anthropic.Tool[] = [
   {
     name: "decline_request",
     description: "Decline a pending media request.",
-    input_schema: {
+    inputSchema: {
       type: "object" as const,
       properties: {
         requestId: { type: "number", description: "The request ID to decline" },
@@ -194,10 +356,73 @@ const tools: Anthropic.Tool[] = [
       required: ["requestId"],
     },
   },
+  {
+    name: "get_quota",
+    description:
+      "Get the requesting user's remaining movie and TV season requests and the quota window.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {},
+    },
+  },
+  {
+    name: "cancel_request",
+    description: "Cancel (delete) a pending media request.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        requestId: { type: "number", description: "The request ID to cancel" },
+      },
+      required: ["requestId"],
+    },
+  },
+  {
+    name: "edit_request_seasons",
+    description: "Replace the seasons of a pending TV request.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        requestId: { type: "number", description: "The request ID to edit" },
+        seasons: {
+          type: "array",
+          items: { type: "number" },
+          description: "The full new list of season numbers",
+        },
+      },
+      required: ["requestId", "seasons"],
+    },
+  },
+  {
+    name: "retry_request",
+    description: "Retry a failed media request.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        requestId: { type: "number", description: "The request ID to retry" },
+      },
+      required: ["requestId"],
+    },
+  },
+  {
+    name: "next_page",
+    description:
+      "Show the next or previous page of the most recent list (search, discovery, similar titles or requests). Use when the user says \"more\", \"next page\" or \"go back\".",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        direction: {
+          type: "string",
+          enum: ["next", "previous"],
+          description: "Default: next",
+        },
+      },
+      required: [],
+    },
+  },
   {
     name: "discover_trending",
     description: "Get trending movies and TV shows right now.",
-    input_schema: {
+    inputSchema: {
       type: "object" as const,
       properties: {
         mediaType: {
@@ -205,6 +430,7 @@ const tools: Anthropic.Tool[] = [
           enum: ["movie", "tv", "all"],
           description: "Filter by media type. Default: all",
         },
+        page: PAGE_PROPERTY,
       },
       required: [],
     },
@@ -212,7 +438,7 @@ const tools: Anthropic.Tool[] = [
   {
     name: "discover_upcoming",
     description: "Get upcoming movies or TV shows coming soon.",
-    input_schema: {
+    inputSchema: {
       type: "object" as const,
       properties: {
         mediaType: {
@@ -220,6 +446,7 @@ const tools: Anthropic.Tool[] = [
           enum: ["movie", "tv"],
           description: "Movies or TV shows",
         },
+        page: PAGE_PROPERTY,
       },
       required: ["mediaType"],
     },
@@ -227,7 +454,7 @@ const tools: Anthropic.Tool[] = [
   {
     name: "discover_movies",
     description: "Discover movies by year, genre, or rating.",
-    input_schema: {
+    inputSchema: {
       type: "object" as const,
       properties: {
         year: { type: "number", description: "Filter by release year" },
@@ -238,6 +465,7 @@ const tools: Anthropic.Tool[] = [
           enum: ["popularity", "rating", "release_date"],
           description: "Sort order. Default: popularity",
         },
+        page: PAGE_PROPERTY,
       },
       required: [],
     },
@@ -245,7 +473,7 @@ const tools: Anthropic.Tool[] = [
   {
     name: "discover_tv",
     description: "Discover TV shows by year, genre, or rating.",
-    input_schema: {
+    inputSchema: {
       type: "object" as const,
       properties: {
         year: { type: "number", description: "Filter by first air year" },
@@ -256,6 +484,7 @@ const tools: Anthropic.Tool[] = [
           enum: ["popularity", "rating", "first_air_date"],
           description: "Sort order. Default: popularity",
         },
+        page: PAGE_PROPERTY,
       },
       required: [],
     },
@@ -263,11 +492,12 @@ const tools: Anthropic.Tool[] = [
   {
     name: "get_similar",
     description: "Find movies or TV shows similar to a given title.",
-    input_schema: {
+    inputSchema: {
       type: "object" as const,
       properties: {
         tmdbId: { type: "number", description: "The TMDB ID" },
         mediaType: { type: "string", enum: ["movie", "tv"], description: "Movie or TV" },
+        page: PAGE_PROPERTY,
       },
       required: ["tmdbId", "mediaType"],
     },
@@ -275,7 +505,7 @@ const tools: Anthropic.Tool[] = [
   {
     name: "get_ratings",
     description: "Get Rotten Tomatoes and IMDB ratings for a movie or TV show.",
-    input_schema: {
+    inputSchema: {
       type: "object" as const,
       properties: {
         tmdbId: { type: "number", description: "The TMDB ID" },
@@ -286,47 +516,164 @@ const tools: Anthropic.Tool[] = [
   },
 ];
 
+// Drop the 4K options when 4K is off, so the model never sees them
+function without4kOption(tool: ToolDefinition): ToolDefinition {
+  const properties = tool.inputSchema.properties;
+  if (!properties.is4k) return tool;
+  return {
+    ...tool,
+    inputSchema: {
+      ...tool.inputSchema,
+      properties: Object.fromEntries(Object.entries(properties).filter(([key]) => key !== "is4k")),
+    },
+  };
+}
+
+// The tools offered in a server or channel, given its feature toggles
+function toolsFor(scope: ScopeSettings): ToolDefinition[] {
+  return tools
+    .filter((tool) => isToolEnabled(tool.name, scope))
+    .map((tool) => (scope.enable4k ? tool : without4kOption(tool)));
+}
+
+// Who the agent is acting for
+export interface RequesterContext {
+  discordId: string;
+  discordTag: string;
+  /** Discord guild the message came from (undefined for DMs) */
+  guildId?: string;
+  /** Channel to answer in, used for follow-up notifications */
+  channelId?: string;
+  /** Role IDs the author holds in that guild */
+  roleIds: string[];
+  /** Linked Seerr user, if the Discord account could be matched */
+  seerrUser?: SeerrUser;
+}
+
+export interface MediaChoice {
+  tmdbId: number;
+  mediaType: "movie" | "tv";
+  label: string;
+}
+
+// Structured results collected while tools run, so the Discord layer can
+// render buttons and select menus next to the text reply
+export interface ResponseActions {
+  /** Selectable results from the most recent list */
+  choices: MediaChoice[];
+  /** Media whose details were shown last, if it can still be requested */
+  media?: MediaChoice & {
+    /** Seasons not yet available or requested */
+    seasons: number[];
+    /** Every season of the show, aired or not */
+    allSeasons: number[];
+  };
+  /** Pending requests shown in the most recent listing */
+  pendingRequestIds: number[];
+  /** Paged list shown in this response */
+  list?: ListCursor;
+  /** Paged list from earlier in the conversation, for next_page */
+  lastList?: ListCursor;
+}
+
+// Where a paged list is up to. Moving through it re-runs the tool with another page.
+export interface ListCursor {
+  tool: string;
+  /** Tool input without the page */
+  input: Record<string, unknown>;
+  page: number;
+  hasMore: boolean;
+}
+
+export function createResponseActions(lastList?: ListCursor): ResponseActions {
+  return { choices: [], pendingRequestIds: [], lastList };
+}
+
+type TitledMedia = Pick<DiscoverResult, "id" | "title" | "name" | "releaseDate" | "firstAirDate">;
+
+function toMediaChoice(result: TitledMedia, mediaType: "movie" | "tv"): MediaChoice {
+  const title = result.title || result.name || "Unknown";
+  const year = (result.releaseDate || result.firstAirDate || "").slice(0, 4);
+  const type = mediaType === "movie" ? "Movie" : "TV";
+  return {
+    tmdbId: result.id,
+    mediaType,
+    label: `${title}${year ? ` (${year})` : ""} - ${type}`,
+  };
+}
+
 // Tool handlers
-async function handleToolCall(
+export async function handleToolCall(
   name: string,
-  input: Record<string, unknown>
+  input: Record<string, unknown>,
+  requester: RequesterContext,
+  actions: ResponseActions = createResponseActions()
 ): Promise<string> {
+  const scope = settings.resolve(requester);
+  const denial = checkToolEnabled(name, scope) ?? checkToolPermission(name, input, requester);
+  if (denial) {
+    console.log(`Denied tool call ${name} for ${requester.discordTag}`);
+    return denial;
+  }
+
   try {
     switch (name) {
       case "search_media":
-        return await handleSearchMedia(input.query as string);
+        return await handleSearchMedia(input, actions);
       case "get_media_details":
         return await handleGetMediaDetails(
           input.tmdbId as number,
-          input.mediaType as "movie" | "tv"
+          input.mediaType as "movie" | "tv",
+          actions,
+          scope
+        );
+      case "get_season_episodes":
+        return await handleGetSeasonEpisodes(
+          input.tmdbId as number,
+          input.seasonNumber as number
         );
       case "verify_imdb":
         return await handleVerifyImdb(input);
       case "request_media":
-        return await handleRequestMedia(
-          input.tmdbId as number,
+        return await handleRequestMedia(input, requester, actions, scope);
+      case "list_request_options":
+        return await handleListRequestOptions(
           input.mediaType as "movie" | "tv",
-          input.seasons as number[] | undefined
+          Boolean(input.is4k) && scope.enable4k,
+          scope.genreDefaults
         );
+      case "my_requests":
+        return await handleMyRequests(input, requester, actions);
       case "list_requests":
-        return await handleListRequests(input.filter as string | undefined);
+        return await handleListRequests(input, actions);
       case "approve_request":
-        return await handleApproveRequest(input.requestId as number);
+        return await handleApproveRequest(input.requestId as number, requester);
       case "decline_request":
-        return await handleDeclineRequest(input.requestId as number);
+        return await handleDeclineRequest(input.requestId as number, requester);
+      case "get_quota":
+        return await handleGetQuota(requester);
+      case "cancel_request":
+        return await handleCancelRequest(input.requestId as number, requester);
+      case "edit_request_seasons":
+        return await handleEditRequestSeasons(
+          input.requestId as number,
+          input.seasons as number[],
+          requester
+        );
+      case "retry_request":
+        return await handleRetryRequest(input.requestId as number, requester);
       case "discover_trending":
-        return await handleDiscoverTrending(input.mediaType as string | undefined);
+        return await handleDiscoverTrending(input, actions);
       case "discover_upcoming":
-        return await handleDiscoverUpcoming(input.mediaType as "movie" | "tv");
+        return await handleDiscoverUpcoming(input, actions);
       case "discover_movies":
-        return await handleDiscoverMovies(input);
+        return await handleDiscoverMovies(input, actions);
       case "discover_tv":
-        return await handleDiscoverTv(input);
+        return await handleDiscoverTv(input, actions);
       case "get_similar":
-        return await handleGetSimilar(
-          input.tmdbId as number,
-          input.mediaType as "movie" | "tv"
-        );
+        return await handleGetSimilar(input, actions);
+      case "next_page":
+        return await handleNextPage(input.direction as string | undefined, requester, actions);
       case "get_ratings":
         return await handleGetRatings(
           input.tmdbId as number,
@@ -336,12 +683,55 @@ async function handleToolCall(
         return `Unknown tool: ${name}`;
     }
   } catch (error) {
-    return `Error: ${formatErrorMessage(error)}`;
+    return formatToolError(error);
+  }
+}
+
+// Tool output shown to users directly (slash commands) rather than through the
+// model: drop the IDs and hints that only make sense to the model
+const USER_FACING_REWRITES: [RegExp, string][] = [
+  [/ - TMDB:\d+ - /g, " - "],
+  [/\s*More results are available with next_page\./g, ""],
+  [/; tell the user to try again later\./g, ". Please try again later."],
+  [/ Check the ID with search_media or list_requests\./g, ""],
+  [/\. Check the current status with get_media_details\./g, "."],
+  [
+    /so check the current status before retrying; otherwise tell the user the service is slow and to try again later\./g,
+    "so check its status before trying again.",
+  ],
+];
+
+export function formatToolOutputForUser(output: string): string {
+  return USER_FACING_REWRITES.reduce(
+    (text, [pattern, replacement]) => text.replace(pattern, replacement),
+    output
+  );
+}
+
+// Explain API failures in terms the model can act on
+function formatToolError(error: unknown): string {
+  if (error instanceof ApiError && error.isUnavailable) {
+    return `Error: ${error.message}. The service may be down; tell the user to try again later.`;
   }
+  if (error instanceof SeerrApiError) {
+    switch (error.status) {
+      case 403:
+        return `Permission denied by Seerr: ${error.detail}`;
+      case 404:
+        return "Error: Seerr could not find that. Check the ID with search_media or list_requests.";
+      case 409:
+        return `Seerr rejected this as a duplicate: ${error.detail}. Check the current status with get_media_details.`;
+    }
+    return `Error from Seerr (${error.status}): ${error.detail}`;
+  }
+  if (error instanceof OmdbApiError) {
+    return `IMDB lookup failed: ${error.detail}`;
+  }
+  return `Error: ${formatErrorMessage(error)}`;
 }
 
 // Tool implementations
-function parseYearFromQuery(query: string): { title: string; year?: string } {
+export function parseYearFromQuery(query: string): { title: string; year?: string } {
   const yearPatterns = [
     /\((\d{4})\)\s*$/,
     /\[(\d{4})\]\s*$/,
@@ -357,18 +747,117 @@ function parseYearFromQuery(query: string): { title: string; year?: string } {
   return { title: query };
 }
 
-async function handleSearchMedia(query: string): Promise<string> {
-  const { title, year: targetYear } = parseYearFromQuery(query);
-  const response = await seerr.search(title);
+// Seerr returns 20 results per page; show them 10 at a time
+const RESULTS_PAGE_SIZE = 10;
+const SEERR_PAGE_SIZE = 20;
+// How far filtered lists read into Seerr's pages
+const MAX_FILTERED_SEERR_PAGES = 25;
 
-  if (response.results.length === 0) {
-    return `No results found for "${title}". Try a different search term.`;
+interface ResultsPage<T> {
+  results: T[];
+  totalResults: number;
+  hasMore: boolean;
+}
+
+async function fetchResultsPage<T>(
+  page: number,
+  fetchSeerrPage: (seerrPage: number) => Promise<{
+    results: T[];
+    totalPages: number;
+    totalResults: number;
+  }>
+): Promise<ResultsPage<T>> {
+  const pagesPerSeerrPage = SEERR_PAGE_SIZE / RESULTS_PAGE_SIZE;
+  const seerrPage = Math.ceil(page / pagesPerSeerrPage);
+  const offset = ((page - 1) % pagesPerSeerrPage) * RESULTS_PAGE_SIZE;
+  const response = await fetchSeerrPage(seerrPage);
+  return {
+    results: response.results.slice(offset, offset + RESULTS_PAGE_SIZE),
+    totalResults: response.totalResults,
+    hasMore:
+      seerrPage < response.totalPages || offset + RESULTS_PAGE_SIZE < response.results.length,
+  };
+}
+
+// For lists Seerr can't filter, e.g. trending movies only. Pages are cut from the
+// filtered results, reading Seerr pages until the requested one is full.
+async function fetchFilteredResultsPage<T>(
+  page: number,
+  fetchSeerrPage: (seerrPage: number) => Promise<{ results: T[]; totalPages: number }>,
+  keep: (result: T) => boolean
+): Promise<Omit<ResultsPage<T>, "totalResults">> {
+  const start = (page - 1) * RESULTS_PAGE_SIZE;
+  const end = start + RESULTS_PAGE_SIZE;
+  const kept: T[] = [];
+  let seerrPage = 0;
+  let totalPages = 1;
+  // One result past the page tells whether there is another
+  while (kept.length <= end && seerrPage < Math.min(totalPages, MAX_FILTERED_SEERR_PAGES)) {
+    const response = await fetchSeerrPage(++seerrPage);
+    totalPages = response.totalPages;
+    kept.push(...response.results.filter(keep));
   }
+  return { results: kept.slice(start, end), hasMore: kept.length > end };
+}
+
+function withoutPage(input: Record<string, unknown>): Record<string, unknown> {
+  const rest = { ...input };
+  delete rest.page;
+  return rest;
+}
 
-  let mediaResults = response.results.filter(
-    (r) => r.mediaType === "movie" || r.mediaType === "tv"
+function setListCursor(
+  actions: ResponseActions,
+  tool: string,
+  input: Record<string, unknown>,
+  page: number,
+  hasMore: boolean
+): void {
+  // The cursor re-runs the tool with other pages, so it keeps the input without one
+  actions.list = { tool, input: withoutPage(input), page, hasMore };
+}
+
+function formatMoreNote(hasMore: boolean): string {
+  return hasMore ? "\n\nMore results are available with next_page." : "";
+}
+
+async function handleNextPage(
+  direction: string | undefined,
+  requester: RequesterContext,
+  actions: ResponseActions
+): Promise<string> {
+  const cursor = actions.list ?? actions.lastList;
+  if (!cursor) {
+    return "There is no list to page through. Ask the user what they would like to see.";
+  }
+  if (direction === "previous") {
+    if (cursor.page <= 1) return "Already on the first page.";
+    return handleToolCall(cursor.tool, { ...cursor.input, page: cursor.page - 1 }, requester, actions);
+  }
+  if (!cursor.hasMore) return "That was the last page; there are no more results.";
+  return handleToolCall(cursor.tool, { ...cursor.input, page: cursor.page + 1 }, requester, actions);
+}
+
+async function handleSearchMedia(
+  input: Record<string, unknown>,
+  actions: ResponseActions
+): Promise<string> {
+  const query = input.query as string;
+  const page = parsePage(input.page);
+  const { title, year: targetYear } = parseYearFromQuery(query);
+  const { results, totalResults, hasMore } = await fetchResultsPage(page, (seerrPage) =>
+    seerr.search(title, seerrPage)
   );
 
+  if (results.length === 0) {
+    return page > 1
+      ? `No more results for "${title}".`
+      : `No results found for "${title}". Try a different search term.`;
+  }
+  setListCursor(actions, "search_media", { query }, page, hasMore);
+
+  let mediaResults = results.filter((r) => r.mediaType === "movie" || r.mediaType === "tv");
+
   if (targetYear) {
     const matchingYear = mediaResults.filter((r) => {
       const resultYear = (r.releaseDate || r.firstAirDate || "").slice(0, 4);
@@ -381,15 +870,16 @@ async function handleSearchMedia(query: string): Promise<string> {
     mediaResults = [...matchingYear, ...otherResults];
   }
 
-  mediaResults = mediaResults.slice(0, 10);
+  actions.choices = mediaResults.map((r) => toMediaChoice(r, r.mediaType as "movie" | "tv"));
 
+  const offset = (page - 1) * RESULTS_PAGE_SIZE;
   const formatted = mediaResults
     .map((r, i) => {
       const resultTitle = r.title || r.name || "Unknown";
       const resultYear = (r.releaseDate || r.firstAirDate || "").slice(0, 4);
       const type = r.mediaType === "movie" ? "Movie" : "TV";
       const tmdbUrl = `https://www.themoviedb.org/${r.mediaType}/${r.id}`;
-      return `${i + 1}. ${resultTitle} (${resultYear}) - ${type} - TMDB:${r.id} - ${tmdbUrl}`;
+      return `${offset + i + 1}. ${resultTitle} (${resultYear}) - ${type} - TMDB:${r.id} - ${tmdbUrl}`;
     })
     .join("\n");
 
@@ -398,18 +888,41 @@ async function handleSearchMedia(query: string): Promise<string> {
     : "";
 
   const yearNote = targetYear ? ` (prioritizing ${targetYear})` : "";
-  return `Found ${response.totalResults} results${yearNote}. Top matches:\n\n${formatted}${firstPoster}`;
+  const heading = page > 1 ? `Page ${page} of matches` : "Top matches";
+  return `Found ${totalResults} results${yearNote}. ${heading}:\n\n${formatted}${formatMoreNote(hasMore)}${firstPoster}`;
+}
+
+function isRequestable(status: number | undefined): boolean {
+  return (
+    status === undefined ||
+    status === MediaStatus.UNKNOWN ||
+    status === MediaStatus.PARTIALLY_AVAILABLE
+  );
+}
+
+// Regular status, plus the 4K status when 4K requests are enabled
+function formatStatusLines(mediaInfo: MediaInfo | undefined, show4k: boolean): string {
+  const status = mediaInfo ? getMediaStatusText(mediaInfo.status) : "Not Requested";
+  if (!show4k) {
+    return `Status: ${status}`;
+  }
+  const status4k = mediaInfo ? getMediaStatusText(mediaInfo.status4k) : "Not Requested";
+  return `Status: ${status}\n4K Status: ${status4k}`;
 }
 
 async function handleGetMediaDetails(
   tmdbId: number,
-  mediaType: "movie" | "tv"
+  mediaType: "movie" | "tv",
+  actions: ResponseActions,
+  scope: ScopeSettings
 ): Promise<string> {
   if (mediaType === "movie") {
     const movie = await seerr.getMovieDetails(tmdbId);
-    const status = movie.mediaInfo
-      ? getMediaStatusText(movie.mediaInfo.status)
-      : "Not Requested";
+
+    actions.media =
+      scope.features.requests && isRequestable(movie.mediaInfo?.status)
+        ? { ...toMediaChoice(movie, "movie"), seasons: [], allSeasons: [] }
+        : undefined;
 
     const tmdbUrl = `https://www.themoviedb.org/movie/${movie.id}`;
     const imdbUrl = movie.imdbId ? `https://www.imdb.com/title/${movie.imdbId}` : null;
@@ -418,7 +931,7 @@ async function handleGetMediaDetails(
       : "";
 
     return `Movie: ${movie.title} (${movie.releaseDate?.slice(0, 4) || "N/A"})
-Status: ${status}
+${formatStatusLines(movie.mediaInfo, scope.enable4k)}
 Rating: ${movie.voteAverage.toFixed(1)}/10
 Runtime: ${movie.runtime || "N/A"} minutes
 Genres: ${movie.genres.map((g) => g.name).join(", ")}
@@ -427,9 +940,13 @@ TMDB: ${tmdbUrl}${imdbUrl ? `\nIMDB: ${imdbUrl}` : ""}
 Overview: ${movie.overview || "No overview available."}${posterTag}`;
   } else {
     const tv = await seerr.getTvDetails(tmdbId);
-    const status = tv.mediaInfo
-      ? getMediaStatusText(tv.mediaInfo.status)
-      : "Not Requested";
+
+    const missingSeasons = getMissingSeasons(tv);
+    const allSeasons = tv.seasons.map((s) => s.seasonNumber).filter((n) => n > 0);
+    actions.media =
+      scope.features.requests && missingSeasons.length > 0
+        ? { ...toMediaChoice(tv, "tv"), seasons: missingSeasons, allSeasons }
+        : undefined;
 
     const tmdbUrl = `https://www.themoviedb.org/tv/${tv.id}`;
     const imdbUrl = tv.externalIds?.imdbId
@@ -439,18 +956,23 @@ Overview: ${movie.overview || "No overview available."}${posterTag}`;
       ? `\n[POSTER:${TMDB_IMAGE_BASE}${tv.posterPath}]`
       : "";
 
+    const seasonStatuses = getSeasonStatuses(tv);
     const seasonList = tv.seasons
       .filter((s) => s.seasonNumber > 0)
       .map(
         (s) =>
-          `  S${s.seasonNumber}: ${s.episodeCount} eps${s.airDate ? ` (${s.airDate.slice(0, 4)})` : ""}`
+          `  S${s.seasonNumber}: ${s.episodeCount} eps${s.airDate ? ` (${s.airDate.slice(0, 4)})` : ""} - ${getMediaStatusText(seasonStatuses.get(s.seasonNumber)!)}`
       )
       .join("\n");
+    const missingLine =
+      tv.mediaInfo && missingSeasons.length > 0
+        ? `\nMissing seasons: ${missingSeasons.join(", ")}`
+        : "";
 
     return `TV Show: ${tv.name} (${tv.firstAirDate?.slice(0, 4) || "N/A"})
-Status: ${status}
+${formatStatusLines(tv.mediaInfo, scope.enable4k)}
 Rating: ${tv.voteAverage.toFixed(1)}/10
-Seasons: ${tv.numberOfSeasons} (${tv.numberOfEpisodes} episodes)
+Seasons: ${tv.numberOfSeasons} (${tv.numberOfEpisodes} episodes)${missingLine}
 Genres: ${tv.genres.map((g) => g.name).join(", ")}
 Show Status: ${tv.status}
 TMDB: ${tmdbUrl}${imdbUrl ? `\nIMDB: ${imdbUrl}` : ""}
@@ -461,6 +983,27 @@ Overview: ${tv.overview || "No overview available."}${posterTag}`;
   }
 }
 
+async function handleGetSeasonEpisodes(
+  tmdbId: number,
+  seasonNumber: number
+): Promise<string> {
+  const season = await seerr.getSeasonDetails(tmdbId, seasonNumber);
+  if (season.episodes.length === 0) {
+    return `No episodes listed for season ${seasonNumber}.`;
+  }
+
+  const today = new Date().toISOString().slice(0, 10);
+  const episodes = season.episodes
+    .map((e) => {
+      const aired = e.airDate && e.airDate <= today;
+      const date = e.airDate ? (aired ? e.airDate : `${e.airDate}, not aired yet`) : "TBA";
+      return `  E${e.episodeNumber}: ${e.name} (${date})`;
+    })
+    .join("\n");
+
+  return `${season.name} (${season.episodes.length} episodes):\n${episodes}`;
+}
+
 async function handleVerifyImdb(input: Record<string, unknown>): Promise<string> {
   const imdbId = input.imdbId as string | undefined;
   const title = input.title as string | undefined;
@@ -499,40 +1042,148 @@ Plot: ${details.Plot}`;
   return "Please provide either an IMDB ID or a title to search.";
 }
 
+function formatRequesterNote(requester: RequesterContext): string {
+  return requester.seerrUser
+    ? `Requested as: ${getSeerrUserName(requester.seerrUser)}`
+    : "Note: This Discord account is not linked to a Seerr user, so the request was filed under the bot's account.";
+}
+
 async function handleRequestMedia(
-  tmdbId: number,
-  mediaType: "movie" | "tv",
-  seasons?: number[]
+  input: Record<string, unknown>,
+  requester: RequesterContext,
+  actions: ResponseActions,
+  scope: ScopeSettings
 ): Promise<string> {
+  const tmdbId = input.tmdbId as number;
+  const mediaType = input.mediaType as "movie" | "tv";
+  const is4k = Boolean(input.is4k);
+  let seasons = input.seasons as number[] | undefined;
+
+  if (is4k && !scope.enable4k) {
+    return "Error: 4K requests are not enabled on this server.";
+  }
+  const quality = is4k ? "4K " : "";
+
+  const userOverrides: RequestOverrides = {
+    server: input.server as string | undefined,
+    profile: input.profile as string | undefined,
+    rootFolder: input.rootFolder as string | undefined,
+    tags: input.tags as string[] | undefined,
+  };
+
+  // Details are only needed for genre defaults and missing-season lookups
+  const needsDetails =
+    Object.keys(scope.genreDefaults).length > 0 ||
+    (mediaType === "tv" && Boolean(input.missingOnly));
+  const details = needsDetails
+    ? mediaType === "movie"
+      ? await seerr.getMovieDetails(tmdbId)
+      : await seerr.getTvDetails(tmdbId)
+    : undefined;
+
+  const overrides = mergeGenreDefaults(
+    userOverrides,
+    details?.genres.map((g) => g.name) ?? [],
+    scope.genreDefaults
+  );
+  const options: RequestOptions = {
+    userId: requester.seerrUser?.id,
+    is4k,
+    ...(await resolveRequestOptions(mediaType, is4k, overrides)),
+  };
+
+  // Remember the requester for status notifications, queue it for admins,
+  // and don't offer to request what was just requested
+  const onRequested = (requestId: number, status: RequestStatus) => {
+    requestTracker.track({
+      requestId,
+      tmdbId,
+      mediaType,
+      discordId: requester.discordId,
+      guildId: requester.guildId,
+      channelId: requester.channelId,
+      createdAt: Date.now(),
+    });
+    if (status === RequestStatus.PENDING) {
+      approvalQueue.enqueue(requestId).catch((error) => {
+        console.error(`Failed to queue request #${requestId}:`, error);
+      });
+    }
+    if (actions.media?.tmdbId === tmdbId) actions.media = undefined;
+  };
+
+  // Check the quota up front so users get a useful answer instead of a 403
+  const quota = await getQuota(requester);
+
   if (mediaType === "movie") {
-    const response = await seerr.requestMovie(tmdbId);
+    const quotaProblem = quota && checkQuota(quota, "movie");
+    if (quotaProblem) return quotaProblem;
+
+    const response = await seerr.requestMovie(tmdbId, options);
+    onRequested(response.id, response.status);
     const status = getRequestStatusText(response.status);
-    return `Movie request submitted successfully!
+    return `${quality}Movie request submitted successfully!
 Request ID: ${response.id}
 Status: ${status}
-Created: ${new Date(response.createdAt).toLocaleString()}`;
+Created: ${new Date(response.createdAt).toLocaleString()}${formatOverrides(overrides)}
+${formatRequesterNote(requester)}`;
   } else {
+    if (input.missingOnly) {
+      const missing = getMissingSeasons(details as TvDetails, is4k);
+      seasons = seasons?.length ? seasons.filter((n) => missing.includes(n)) : missing;
+      if (seasons.length === 0) {
+        return "Nothing to request: every season asked for is already available or requested.";
+      }
+    }
     if (!seasons || seasons.length === 0) {
-      return "Error: For TV shows, you must specify which seasons to request. Use get_media_details first to see available seasons.";
+      return "Error: For TV shows, you must specify which seasons to request (or set missingOnly). Use get_media_details first to see available seasons.";
     }
-    const response = await seerr.requestTv(tmdbId, seasons);
+    const quotaProblem = quota && checkQuota(quota, "tv", seasons);
+    if (quotaProblem) return quotaProblem;
+
+    const response = await seerr.requestTv(tmdbId, seasons, options);
+    onRequested(response.id, response.status);
     const status = getRequestStatusText(response.status);
     const seasonsList = seasons.sort((a, b) => a - b).join(", ");
-    return `TV show request submitted successfully!
+    return `${quality}TV show request submitted successfully!
 Request ID: ${response.id}
 Seasons requested: ${seasonsList}
 Status: ${status}
-Created: ${new Date(response.createdAt).toLocaleString()}`;
+Created: ${new Date(response.createdAt).toLocaleString()}${formatOverrides(overrides)}
+${formatRequesterNote(requester)}`;
   }
 }
 
+function formatOverrides(overrides: RequestOverrides): string {
+  const parts = [
+    overrides.server && `server ${overrides.server}`,
+    overrides.profile && `profile ${overrides.profile}`,
+    overrides.rootFolder && `folder ${overrides.rootFolder}`,
+    overrides.tags?.length && `tags ${overrides.tags.join(", ")}`,
+  ].filter(Boolean);
+  return parts.length > 0 ? `\nOptions: ${parts.join(", ")}` : "";
+}
+
+async function handleListRequestOptions(
+  mediaType: "movie" | "tv",
+  is4k: boolean,
+  genreDefaultsByGenre: Record<string, RequestOverrides>
+): Promise<string> {
+  const options = await describeServiceOptions(mediaType, is4k);
+  const genreDefaults = Object.entries(genreDefaultsByGenre)
+    .map(([genre, overrides]) => `  ${genre}:${formatOverrides(overrides).replace("\nOptions:", "")}`)
+    .join("\n");
+  return genreDefaults ? `${options}\n\nGenre defaults:\n${genreDefaults}` : options;
+}
+
+// Only the title is needed, so an older cached copy of the details will do
 async function fetchMediaTitle(req: MediaRequestItem): Promise<{ title: string; year: string }> {
   try {
     if (req.type === "movie") {
-      const details = await seerr.getMovieDetails(req.media.tmdbId);
+      const details = await seerr.getMovieDetails(req.media.tmdbId, "metadata");
       return { title: details.title, year: details.releaseDate?.slice(0, 4) || "" };
     } else {
-      const details = await seerr.getTvDetails(req.media.tmdbId);
+      const details = await seerr.getTvDetails(req.media.tmdbId, "metadata");
       return { title: details.name, year: details.firstAirDate?.slice(0, 4) || "" };
     }
   } catch {
@@ -540,58 +1191,243 @@ async function fetchMediaTitle(req: MediaRequestItem): Promise<{ title: string;
   }
 }
 
-async function handleListRequests(filter?: string): Promise<string> {
-  const filterValue = (filter || "pending") as RequestFilter;
-  const response = await seerr.listRequests(filterValue);
+const REQUESTS_PAGE_SIZE = 10;
+// How far back to page through Seerr when filtering history by date
+const MAX_HISTORY_SCAN = 500;
+const HISTORY_SCAN_PAGE_SIZE = 50;
 
-  if (response.results.length === 0) {
-    return `No ${filterValue} requests found.`;
+function parsePage(value: unknown): number {
+  return Math.max(1, Math.floor(Number(value) || 1));
+}
+
+// Requested seasons with how far each has got, e.g. "S1 Available, S2 Requested"
+function formatSeasonProgress(req: MediaRequestItem): string {
+  if (req.type !== "tv" || !req.seasons?.length) return "";
+  const statuses = new Map(
+    req.is4k ? [] : (req.media.seasons ?? []).map((s) => [s.seasonNumber, s.status])
+  );
+  const seasons = req.seasons
+    .map((s) => s.seasonNumber)
+    .sort((a, b) => a - b)
+    .map((n) => {
+      const status = statuses.get(n);
+      return status && status !== MediaStatus.UNKNOWN ? `S${n} ${getMediaStatusText(status)}` : `S${n}`;
+    });
+  return ` | Seasons: ${seasons.join(", ")}`;
+}
+
+// Approved requests are only interesting for how far the media has got
+function formatRequestProgress(req: MediaRequestItem): string {
+  const status = getRequestStatusText(req.status);
+  if (req.status !== RequestStatus.APPROVED && req.status !== RequestStatus.COMPLETED) {
+    return status;
   }
+  return `${status}, ${getMediaStatusText(req.is4k ? req.media.status4k : req.media.status)}`;
+}
 
-  const mediaInfoPromises = response.results.map((req) => fetchMediaTitle(req));
-  const mediaInfos = await Promise.all(mediaInfoPromises);
+async function formatRequestLines(
+  requests: MediaRequestItem[],
+  showRequester: boolean
+): Promise<string> {
+  const mediaInfos = await Promise.all(requests.map((req) => fetchMediaTitle(req)));
 
-  const formatted = response.results
+  return requests
     .map((req, index) => {
       const { title, year } = mediaInfos[index];
-      const type = req.type === "movie" ? "Movie" : "TV";
-      const status = getRequestStatusText(req.status);
-      const requester =
-        req.requestedBy.displayName ||
-        req.requestedBy.username ||
-        req.requestedBy.email.split("@")[0];
+      const type = `${req.type === "movie" ? "Movie" : "TV"}${req.is4k ? " 4K" : ""}`;
+      const requester = showRequester ? ` | Requested by: ${getRequesterName(req.requestedBy)}` : "";
       const date = new Date(req.createdAt).toLocaleDateString();
-
-      let seasonInfo = "";
-      if (req.type === "tv" && req.seasons && req.seasons.length > 0) {
-        const seasonNums = req.seasons.map((s) => s.seasonNumber).join(", ");
-        seasonInfo = ` S${seasonNums}`;
-      }
-
       const yearStr = year ? ` (${year})` : "";
-      return `#${req.id}: ${title}${yearStr} - ${type}${seasonInfo} | Requested by: ${requester} | Status: ${status} | ${date}`;
+      return `#${req.id}: ${title}${yearStr} - ${type}${requester} | Status: ${formatRequestProgress(req)}${formatSeasonProgress(req)} | ${date}`;
     })
     .join("\n");
+}
 
-  const total = response.pageInfo.results;
-  const shown = response.results.length;
-  return `${filterValue.charAt(0).toUpperCase() + filterValue.slice(1)} requests (${shown}${total > shown ? ` of ${total}` : ""}):\n\n${formatted}`;
+function formatPageFooter(page: number, pages: number, total: number): string {
+  if (pages <= 1) return "";
+  const more = page < pages ? " More results are available with next_page." : "";
+  return `\n\nPage ${page} of ${pages} (${total} total).${more}`;
 }
 
-function formatRequestError(error: unknown, requestId: number, action: string): string {
-  const message = formatErrorMessage(error);
-  if (message.includes("403")) {
-    return "Permission denied. The API key doesn't have MANAGE_REQUESTS permission.";
+async function handleListRequests(
+  input: Record<string, unknown>,
+  actions: ResponseActions
+): Promise<string> {
+  const filterValue = ((input.filter as string) || "pending") as RequestFilter;
+  const page = parsePage(input.page);
+  const response = await seerr.listRequests({
+    filter: filterValue,
+    take: REQUESTS_PAGE_SIZE,
+    skip: (page - 1) * REQUESTS_PAGE_SIZE,
+    sort: "added",
+  });
+
+  if (response.results.length === 0) {
+    return page > 1 ? `No more ${filterValue} requests.` : `No ${filterValue} requests found.`;
   }
-  if (message.includes("404")) {
-    return `Request #${requestId} not found. Use list_requests to see available requests.`;
+
+  actions.pendingRequestIds = response.results
+    .filter((req) => req.status === RequestStatus.PENDING)
+    .map((req) => req.id);
+
+  const { pages, results: total } = response.pageInfo;
+  setListCursor(actions, "list_requests", { filter: filterValue }, page, page < pages);
+  const formatted = await formatRequestLines(response.results, true);
+  const label = filterValue.charAt(0).toUpperCase() + filterValue.slice(1);
+  return `${label} requests:\n\n${formatted}${formatPageFooter(page, pages, total)}`;
+}
+
+// Mirror Seerr's status filters for requests we look up one by one
+function matchesFilter(req: MediaRequestItem, filter: RequestFilter): boolean {
+  const mediaStatus = req.is4k ? req.media.status4k : req.media.status;
+  switch (filter) {
+    case "pending":
+      return req.status === RequestStatus.PENDING;
+    case "approved":
+      return req.status === RequestStatus.APPROVED;
+    case "processing":
+      return req.status === RequestStatus.APPROVED && mediaStatus !== MediaStatus.AVAILABLE;
+    case "available":
+      return mediaStatus === MediaStatus.AVAILABLE;
+    case "failed":
+      return req.status === RequestStatus.FAILED;
+    default:
+      return true;
   }
-  return `Error ${action} request: ${message}`;
 }
 
-async function handleApproveRequest(requestId: number): Promise<string> {
+// Unlinked users' requests are filed under the bot, so only the ones the
+// bot still tracks can be attributed to them
+async function loadTrackedRequests(discordId: string): Promise<MediaRequestItem[]> {
+  const tracked = requestTracker.forUser(discordId);
+  const requests = await Promise.all(
+    tracked.map((t) => seerr.getRequest(t.requestId).catch(() => undefined))
+  );
+  return requests.filter((req): req is MediaRequestItem => req !== undefined);
+}
+
+// Seerr can't filter by date, so walk the newest requests until we're past `since`
+async function scanRequestHistory(
+  options: RequestListOptions,
+  since: Date | undefined
+): Promise<MediaRequestItem[]> {
+  const requests: MediaRequestItem[] = [];
+  for (let skip = 0; skip < MAX_HISTORY_SCAN; skip += HISTORY_SCAN_PAGE_SIZE) {
+    const response = await seerr.listRequests({
+      ...options,
+      sort: "added",
+      sortDirection: "desc",
+      take: HISTORY_SCAN_PAGE_SIZE,
+      skip,
+    });
+    requests.push(...response.results);
+
+    const oldest = response.results[response.results.length - 1];
+    if (!oldest || skip + HISTORY_SCAN_PAGE_SIZE >= response.pageInfo.results) break;
+    if (since && new Date(oldest.createdAt) < since) break;
+  }
+  return requests;
+}
+
+function parseDateInput(value: unknown, name: string): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(`${value}T00:00:00`);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid ${name} date "${value}". Use YYYY-MM-DD.`);
+  }
+  return date;
+}
+
+async function handleMyRequests(
+  input: Record<string, unknown>,
+  requester: RequesterContext,
+  actions: ResponseActions
+): Promise<string> {
+  const filter = ((input.filter as string) || "all") as RequestFilter;
+  const mediaType = input.mediaType as "movie" | "tv" | undefined;
+  const sortDirection = input.sortDirection === "asc" ? "asc" : "desc";
+  const page = parsePage(input.page);
+  const since = parseDateInput(input.since, "since");
+  const until = parseDateInput(input.until, "until");
+  // "until" is inclusive, so compare against the start of the next day
+  until?.setDate(until.getDate() + 1);
+
+  let results: MediaRequestItem[];
+  let pages: number;
+  let total: number;
+
+  if (requester.seerrUser && !since && !until) {
+    const response = await seerr.listRequests({
+      filter,
+      mediaType,
+      requestedBy: requester.seerrUser.id,
+      sort: "added",
+      sortDirection,
+      take: REQUESTS_PAGE_SIZE,
+      skip: (page - 1) * REQUESTS_PAGE_SIZE,
+    });
+    results = response.results;
+    pages = response.pageInfo.pages;
+    total = response.pageInfo.results;
+  } else {
+    const candidates = requester.seerrUser
+      ? await scanRequestHistory({ filter, mediaType, requestedBy: requester.seerrUser.id }, since)
+      : (await loadTrackedRequests(requester.discordId)).filter(
+          (req) => matchesFilter(req, filter) && (!mediaType || req.type === mediaType)
+        );
+
+    const matching = candidates
+      .filter((req) => {
+        const createdAt = new Date(req.createdAt);
+        return (!since || createdAt >= since) && (!until || createdAt < until);
+      })
+      .sort((a, b) => {
+        const diff = new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+        return sortDirection === "asc" ? diff : -diff;
+      });
+
+    results = matching.slice((page - 1) * REQUESTS_PAGE_SIZE, page * REQUESTS_PAGE_SIZE);
+    pages = Math.ceil(matching.length / REQUESTS_PAGE_SIZE);
+    total = matching.length;
+  }
+
+  const unlinkedNote = requester.seerrUser
+    ? ""
+    : "\n\nNote: This Discord account is not linked to a Seerr user, so only requests made through the bot that are still being tracked are shown.";
+
+  if (results.length === 0) {
+    return `${page > 1 ? "No more matching requests." : "No matching requests found."}${unlinkedNote}`;
+  }
+
+  setListCursor(actions, "my_requests", input, page, page < pages);
+  const formatted = await formatRequestLines(results, false);
+  const scope = filter === "all" ? "" : ` (${filter})`;
+  return `Your requests${scope}:\n\n${formatted}${formatPageFooter(page, pages, total)}${unlinkedNote}`;
+}
+
+function formatRequestError(error: unknown, requestId: number, action: string): string {
+  if (error instanceof SeerrApiError) {
+    if (error.status === 403) {
+      return "Permission denied. The API key doesn't have MANAGE_REQUESTS permission.";
+    }
+    if (error.status === 404) {
+      return `Request #${requestId} not found. Use list_requests to see available requests.`;
+    }
+  }
+  return `Error ${action} request: ${formatErrorMessage(error)}`;
+}
+
+async function handleApproveRequest(
+  requestId: number,
+  requester: RequesterContext
+): Promise<string> {
   try {
-    const response = await seerr.approveRequest(requestId);
+    const response = await approvalQueue.decide(
+      requestId,
+      "approved",
+      `<@${requester.discordId}>`,
+      () => seerr.approveRequest(requestId)
+    );
     const title = response.media.title || response.media.name || `TMDB ${response.media.tmdbId}`;
     const type = response.type === "movie" ? "Movie" : "TV Show";
     const processor = response.type === "movie" ? "Radarr" : "Sonarr";
@@ -601,9 +1437,17 @@ async function handleApproveRequest(requestId: number): Promise<string> {
   }
 }
 
-async function handleDeclineRequest(requestId: number): Promise<string> {
+async function handleDeclineRequest(
+  requestId: number,
+  requester: RequesterContext
+): Promise<string> {
   try {
-    const response = await seerr.declineRequest(requestId);
+    const response = await approvalQueue.decide(
+      requestId,
+      "declined",
+      `<@${requester.discordId}>`,
+      () => seerr.declineRequest(requestId)
+    );
     const title = response.media.title || response.media.name || `TMDB ${response.media.tmdbId}`;
     const type = response.type === "movie" ? "Movie" : "TV Show";
     return `Declined request #${requestId}.\n${type}: ${title}\nThe requester will be notified.`;
@@ -612,42 +1456,160 @@ async function handleDeclineRequest(requestId: number): Promise<string> {
   }
 }
 
-async function handleDiscoverTrending(mediaType?: string): Promise<string> {
-  const response = await seerr.discoverTrending();
-  if (response.results.length === 0) {
-    return "No trending content found.";
+async function handleGetQuota(requester: RequesterContext): Promise<string> {
+  if (!requester.seerrUser) {
+    return "This Discord account is not linked to a Seerr user, so there is no personal quota to show. Requests are filed under the bot's account.";
+  }
+  const quota = await getQuota(requester);
+  if (!quota) {
+    return "Error: Could not fetch the quota from Seerr.";
+  }
+  return `Quota for ${getSeerrUserName(requester.seerrUser)}:
+Movies: ${formatQuotaStatus(quota.movie, "movie requests")}
+TV: ${formatQuotaStatus(quota.tv, "season requests")}`;
+}
+
+// Load a request and check the requester may change it
+async function loadOwnRequest(
+  requestId: number,
+  requester: RequesterContext
+): Promise<{ request: MediaRequestItem; title: string } | string> {
+  let request: MediaRequestItem;
+  try {
+    request = await seerr.getRequest(requestId);
+  } catch (error) {
+    return formatRequestError(error, requestId, "loading");
+  }
+  if (!canModifyRequest(request, requester)) {
+    return `Permission denied: request #${requestId} was made by ${getRequesterName(request.requestedBy)}. Only they or an admin can change it.`;
+  }
+  const { title, year } = await fetchMediaTitle(request);
+  return { request, title: year ? `${title} (${year})` : title };
+}
+
+async function handleCancelRequest(
+  requestId: number,
+  requester: RequesterContext
+): Promise<string> {
+  const loaded = await loadOwnRequest(requestId, requester);
+  if (typeof loaded === "string") return loaded;
+
+  if (loaded.request.status !== RequestStatus.PENDING && !canManageRequests(requester)) {
+    return `Request #${requestId} is ${getRequestStatusText(loaded.request.status).toLowerCase()}, so it can no longer be cancelled. Ask an admin.`;
+  }
+
+  try {
+    await seerr.deleteRequest(loaded.request);
+  } catch (error) {
+    return formatRequestError(error, requestId, "cancelling");
+  }
+  await approvalQueue.resolve(requestId, "cancelled", `<@${requester.discordId}>`);
+  requestTracker.forget(requestId);
+  return `Cancelled request #${requestId} for ${loaded.title}.`;
+}
+
+async function handleEditRequestSeasons(
+  requestId: number,
+  seasons: number[],
+  requester: RequesterContext
+): Promise<string> {
+  const loaded = await loadOwnRequest(requestId, requester);
+  if (typeof loaded === "string") return loaded;
+
+  const { request } = loaded;
+  if (request.type !== "tv") {
+    return `Request #${requestId} is for a movie, which has no seasons.`;
+  }
+  if (request.status !== RequestStatus.PENDING) {
+    return `Request #${requestId} is ${getRequestStatusText(request.status).toLowerCase()}. Only pending requests can be edited; make a new request for other seasons.`;
+  }
+  if (!seasons?.length) {
+    return "Error: Provide the full list of seasons. To drop the request entirely, use cancel_request.";
+  }
+
+  try {
+    await seerr.updateRequestSeasons(request, seasons);
+  } catch (error) {
+    return formatRequestError(error, requestId, "editing");
+  }
+  await approvalQueue.refresh(requestId);
+  const seasonsList = [...seasons].sort((a, b) => a - b).join(", ");
+  return `Updated request #${requestId} for ${loaded.title}.\nSeasons requested: ${seasonsList}`;
+}
+
+async function handleRetryRequest(
+  requestId: number,
+  requester: RequesterContext
+): Promise<string> {
+  const loaded = await loadOwnRequest(requestId, requester);
+  if (typeof loaded === "string") return loaded;
+
+  if (loaded.request.status !== RequestStatus.FAILED) {
+    return `Request #${requestId} is ${getRequestStatusText(loaded.request.status).toLowerCase()}, not failed, so there is nothing to retry.`;
   }
 
-  let results = response.results;
-  if (mediaType && mediaType !== "all") {
-    results = results.filter((r) => r.mediaType === mediaType);
+  try {
+    const response = await seerr.retryRequest(requestId);
+    return `Retried request #${requestId} for ${loaded.title}.\nStatus: ${getRequestStatusText(response.status)}`;
+  } catch (error) {
+    return formatRequestError(error, requestId, "retrying");
+  }
+}
+
+async function handleDiscoverTrending(
+  input: Record<string, unknown>,
+  actions: ResponseActions
+): Promise<string> {
+  const mediaType = input.mediaType as string | undefined;
+  const page = parsePage(input.page);
+  // Trending mixes movies, shows and people; filter before paging so pages stay full
+  const { results, hasMore } = await fetchFilteredResultsPage(
+    page,
+    (seerrPage) => seerr.discoverTrending(seerrPage),
+    (r) =>
+      (r.mediaType === "movie" || r.mediaType === "tv") &&
+      (!mediaType || mediaType === "all" || r.mediaType === mediaType)
+  );
+  if (results.length === 0) {
+    return page > 1 ? "No more trending content." : "No trending content found.";
   }
-  results = results
-    .filter((r) => r.mediaType === "movie" || r.mediaType === "tv")
-    .slice(0, 10);
+  setListCursor(actions, "discover_trending", { mediaType }, page, hasMore);
 
+  actions.choices = results.map((r) => toMediaChoice(r, r.mediaType as "movie" | "tv"));
+
+  const offset = (page - 1) * RESULTS_PAGE_SIZE;
   const sections = results.map((r, i) =>
-    formatMediaResult(r, i, r.mediaType as "movie" | "tv", { showMediaType: true })
+    formatMediaResult(r, offset + i, r.mediaType as "movie" | "tv", { showMediaType: true })
   );
-  return `Trending now:\n\n${sections.join("\n\n---\n\n")}`;
+  const heading = page > 1 ? `Trending now (page ${page})` : "Trending now";
+  return `${heading}:\n\n${sections.join("\n\n---\n\n")}${formatMoreNote(hasMore)}`;
 }
 
-async function handleDiscoverUpcoming(mediaType: "movie" | "tv"): Promise<string> {
-  const response =
+async function handleDiscoverUpcoming(
+  input: Record<string, unknown>,
+  actions: ResponseActions
+): Promise<string> {
+  const mediaType = input.mediaType as "movie" | "tv";
+  const page = parsePage(input.page);
+  const { results, hasMore } = await fetchResultsPage(page, (seerrPage) =>
     mediaType === "movie"
-      ? await seerr.discoverUpcomingMovies()
-      : await seerr.discoverUpcomingTv();
+      ? seerr.discoverUpcomingMovies(seerrPage)
+      : seerr.discoverUpcomingTv(seerrPage)
+  );
 
-  if (response.results.length === 0) {
-    return `No upcoming ${mediaType === "movie" ? "movies" : "TV shows"} found.`;
+  const typeLabel = mediaType === "movie" ? "movies" : "TV shows";
+  if (results.length === 0) {
+    return page > 1 ? `No more upcoming ${typeLabel}.` : `No upcoming ${typeLabel} found.`;
   }
+  setListCursor(actions, "discover_upcoming", { mediaType }, page, hasMore);
 
-  const results = response.results.slice(0, 10);
-  const typeLabel = mediaType === "movie" ? "movies" : "TV shows";
+  actions.choices = results.map((r) => toMediaChoice(r, mediaType));
+  const offset = (page - 1) * RESULTS_PAGE_SIZE;
   const sections = results.map((r, i) =>
-    formatMediaResult(r, i, mediaType, { useFullDate: true })
+    formatMediaResult(r, offset + i, mediaType, { useFullDate: true })
   );
-  return `Upcoming ${typeLabel}:\n\n${sections.join("\n\n---\n\n")}`;
+  const heading = page > 1 ? `Upcoming ${typeLabel} (page ${page})` : `Upcoming ${typeLabel}`;
+  return `${heading}:\n\n${sections.join("\n\n---\n\n")}${formatMoreNote(hasMore)}`;
 }
 
 function buildFilterDescription(input: Record<string, unknown>): string {
@@ -655,10 +1617,14 @@ function buildFilterDescription(input: Record<string, unknown>): string {
   if (input.year) filters.push(`from ${input.year}`);
   if (input.genre) filters.push(`${input.genre}`);
   if (input.minRating) filters.push(`rated ${input.minRating}+`);
+  if (Number(input.page) > 1) filters.push(`page ${input.page}`);
   return filters.length > 0 ? ` (${filters.join(", ")})` : "";
 }
 
-async function handleDiscoverMovies(input: Record<string, unknown>): Promise<string> {
+async function handleDiscoverMovies(
+  input: Record<string, unknown>,
+  actions: ResponseActions
+): Promise<string> {
   const sortByMap: Record<string, string> = {
     popularity: "popularity.desc",
     rating: "vote_average.desc",
@@ -667,24 +1633,33 @@ async function handleDiscoverMovies(input: Record<string, unknown>): Promise<str
 
   const genre = input.genre as string | undefined;
   const genreId = genre ? MOVIE_GENRE_MAP[genre.toLowerCase()] : undefined;
+  const page = parsePage(input.page);
+
+  const { results, hasMore } = await fetchResultsPage(page, (seerrPage) =>
+    seerr.discoverMovies({
+      page: seerrPage,
+      year: input.year as number | undefined,
+      genre: genreId,
+      minRating: input.minRating as number | undefined,
+      sortBy: input.sortBy ? sortByMap[input.sortBy as string] : "popularity.desc",
+    })
+  );
 
-  const response = await seerr.discoverMovies({
-    year: input.year as number | undefined,
-    genre: genreId,
-    minRating: input.minRating as number | undefined,
-    sortBy: input.sortBy ? sortByMap[input.sortBy as string] : "popularity.desc",
-  });
-
-  if (response.results.length === 0) {
-    return "No movies found matching criteria.";
+  if (results.length === 0) {
+    return page > 1 ? "No more movies matching criteria." : "No movies found matching criteria.";
   }
 
-  const results = response.results.slice(0, 10);
-  const sections = results.map((r, i) => formatMediaResult(r, i, "movie"));
-  return `Top movies${buildFilterDescription(input)}:\n\n${sections.join("\n\n---\n\n")}`;
+  setListCursor(actions, "discover_movies", input, page, hasMore);
+  actions.choices = results.map((r) => toMediaChoice(r, "movie"));
+  const offset = (page - 1) * RESULTS_PAGE_SIZE;
+  const sections = results.map((r, i) => formatMediaResult(r, offset + i, "movie"));
+  return `Top movies${buildFilterDescription(input)}:\n\n${sections.join("\n\n---\n\n")}${formatMoreNote(hasMore)}`;
 }
 
-async function handleDiscoverTv(input: Record<string, unknown>): Promise<string> {
+async function handleDiscoverTv(
+  input: Record<string, unknown>,
+  actions: ResponseActions
+): Promise<string> {
   const sortByMap: Record<string, string> = {
     popularity: "popularity.desc",
     rating: "vote_average.desc",
@@ -693,40 +1668,53 @@ async function handleDiscoverTv(input: Record<string, unknown>): Promise<string>
 
   const genre = input.genre as string | undefined;
   const genreId = genre ? TV_GENRE_MAP[genre.toLowerCase()] : undefined;
+  const page = parsePage(input.page);
+
+  const { results, hasMore } = await fetchResultsPage(page, (seerrPage) =>
+    seerr.discoverTv({
+      page: seerrPage,
+      year: input.year as number | undefined,
+      genre: genreId,
+      minRating: input.minRating as number | undefined,
+      sortBy: input.sortBy ? sortByMap[input.sortBy as string] : "popularity.desc",
+    })
+  );
 
-  const response = await seerr.discoverTv({
-    year: input.year as number | undefined,
-    genre: genreId,
-    minRating: input.minRating as number | undefined,
-    sortBy: input.sortBy ? sortByMap[input.sortBy as string] : "popularity.desc",
-  });
-
-  if (response.results.length === 0) {
-    return "No TV shows found matching criteria.";
+  if (results.length === 0) {
+    return page > 1 ? "No more TV shows matching criteria." : "No TV shows found matching criteria.";
   }
 
-  const results = response.results.slice(0, 10);
-  const sections = results.map((r, i) => formatMediaResult(r, i, "tv"));
-  return `Top TV shows${buildFilterDescription(input)}:\n\n${sections.join("\n\n---\n\n")}`;
+  setListCursor(actions, "discover_tv", input, page, hasMore);
+  actions.choices = results.map((r) => toMediaChoice(r, "tv"));
+  const offset = (page - 1) * RESULTS_PAGE_SIZE;
+  const sections = results.map((r, i) => formatMediaResult(r, offset + i, "tv"));
+  return `Top TV shows${buildFilterDescription(input)}:\n\n${sections.join("\n\n---\n\n")}${formatMoreNote(hasMore)}`;
 }
 
 async function handleGetSimilar(
-  tmdbId: number,
-  mediaType: "movie" | "tv"
+  input: Record<string, unknown>,
+  actions: ResponseActions
 ): Promise<string> {
-  const response =
+  const tmdbId = input.tmdbId as number;
+  const mediaType = input.mediaType as "movie" | "tv";
+  const page = parsePage(input.page);
+  const { results, hasMore } = await fetchResultsPage(page, (seerrPage) =>
     mediaType === "movie"
-      ? await seerr.getSimilarMovies(tmdbId)
-      : await seerr.getSimilarTv(tmdbId);
+      ? seerr.getSimilarMovies(tmdbId, seerrPage)
+      : seerr.getSimilarTv(tmdbId, seerrPage)
+  );
 
   const typeLabel = mediaType === "movie" ? "movies" : "TV shows";
-  if (response.results.length === 0) {
-    return `No similar ${typeLabel} found.`;
+  if (results.length === 0) {
+    return page > 1 ? `No more similar ${typeLabel}.` : `No similar ${typeLabel} found.`;
   }
+  setListCursor(actions, "get_similar", { tmdbId, mediaType }, page, hasMore);
 
-  const results = response.results.slice(0, 10);
-  const sections = results.map((r, i) => formatMediaResult(r, i, mediaType));
-  return `Similar ${typeLabel}:\n\n${sections.join("\n\n---\n\n")}`;
+  actions.choices = results.map((r) => toMediaChoice(r, mediaType));
+  const offset = (page - 1) * RESULTS_PAGE_SIZE;
+  const sections = results.map((r, i) => formatMediaResult(r, offset + i, mediaType));
+  const heading = page > 1 ? `Similar ${typeLabel} (page ${page})` : `Similar ${typeLabel}`;
+  return `${heading}:\n\n${sections.join("\n\n---\n\n")}${formatMoreNote(hasMore)}`;
 }
 
 function formatRTScore(rt: RTRating): string[] {
@@ -766,89 +1754,346 @@ async function handleGetRatings(
     }
     return lines.join("\n");
   } catch (error) {
-    const message = formatErrorMessage(error);
-    if (message.includes("404")) {
+    if (error instanceof SeerrApiError && error.status === 404) {
       return `No ratings found for this ${typeLabel}.`;
     }
-    return `Error fetching ratings: ${message}`;
+    return `Error fetching ratings: ${formatErrorMessage(error)}`;
   }
 }
 
+// Progress shown in Discord while a message is being answered
+export type AgentProgress =
+  /** Tool calls of the current round have started */
+  | { type: "status"; text: string }
+  /** Reply text of the current model turn so far */
+  | { type: "text"; text: string };
+
+export type ProgressListener = (progress: AgentProgress) => void;
+
+function describeToolCall(
+  name: string,
+  input: Record<string, unknown>,
+  actions: ResponseActions
+): string {
+  const choice = actions.choices.find((c) => c.tmdbId === input.tmdbId);
+  const title = choice ? choice.label.replace(/ - (Movie|TV)$/, "") : "the title";
+  switch (name) {
+    case "search_media":
+      return `Searching Seerr for ${input.query}...`;
+    case "get_media_details":
+      return `Checking ${title}...`;
+    case "get_season_episodes":
+      return `Checking season ${input.seasonNumber}...`;
+    case "verify_imdb":
+      return "Checking IMDb...";
+    case "request_media":
+      return `Requesting ${title}...`;
+    case "list_request_options":
+      return "Checking servers and quality profiles...";
+    case "my_requests":
+      return "Looking up your requests...";
+    case "list_requests":
+      return "Loading requests...";
+    case "approve_request":
+      return `Approving request #${input.requestId}...`;
+    case "decline_request":
+      return `Declining request #${input.requestId}...`;
+    case "get_quota":
+      return "Checking your quota...";
+    case "cancel_request":
+      return `Cancelling request #${input.requestId}...`;
+    case "edit_request_seasons":
+      return `Updating request #${input.requestId}...`;
+    case "retry_request":
+      return `Retrying request #${input.requestId}...`;
+    case "get_similar":
+      return `Finding titles like ${title}...`;
+    case "get_ratings":
+      return `Fetching ratings for ${title}...`;
+    case "next_page":
+      return "Loading more results...";
+    default:
+      return "Browsing titles...";
+  }
+}
+
+// Loop safeguards
+const GAVE_UP_NOTE =
+  "Sorry, I couldn't finish that in a reasonable number of steps. Could you be more specific, e.g. with the exact title and year?";
+const CUT_OFF_NOTE =
+  "(My reply got too long and was cut off. Ask me to continue, or narrow the question down.)";
+
+// Resolves to undefined when the call takes longer than the tool timeout. The
+// call itself keeps running; HTTP timeouts end it eventually.
+async function withToolTimeout(call: Promise<string>): Promise<string | undefined> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<undefined>((resolve) => {
+    timer = setTimeout(() => resolve(undefined), config.agent.toolTimeoutMs);
+  });
+  try {
+    return await Promise.race([call, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function formatToolTimeout(name: string): string {
+  const seconds = Math.round(config.agent.toolTimeoutMs / 1000);
+  return `Error: ${name} did not finish within ${seconds}s. If it changes anything, it may still go through, so check the current status before retrying; otherwise tell the user the service is slow and to try again later.`;
+}
+
+// Runs one turn's tool calls side by side. Each gets its own copy of the
+// response actions, merged back in call order, so whichever call comes last
+// still decides what the buttons act on. Calls that time out change nothing.
+async function runToolCalls(
+  toolUses: ToolCallBlock[],
+  requester: RequesterContext,
+  actions: ResponseActions,
+  onProgress?: ProgressListener
+): Promise<ToolResultBlock[]> {
+  const before = { ...actions };
+  const statuses = toolUses.map((toolUse) =>
+    describeToolCall(toolUse.name, toolUse.input, before)
+  );
+  onProgress?.({ type: "status", text: [...new Set(statuses)].join("\n") });
+
+  const calls = await Promise.all(
+    toolUses.map(async (toolUse) => {
+      console.log(`Tool call: ${toolUse.name}`, toolUse.input);
+      const callActions = { ...before };
+      const result = await withToolTimeout(
+        handleToolCall(toolUse.name, toolUse.input, requester, callActions)
+      );
+      if (result === undefined) {
+        console.warn(`Tool call ${toolUse.name} timed out for ${requester.discordTag}`);
+        return { toolUse, result: formatToolTimeout(toolUse.name), callActions: before };
+      }
+      console.log(`Tool result: ${result.slice(0, 200)}...`);
+      return { toolUse, result, callActions };
+    })
+  );
+
+  for (const { callActions } of calls) {
+    for (const key of Object.keys(callActions) as (keyof ResponseActions)[]) {
+      if (callActions[key] !== before[key]) Object.assign(actions, { [key]: callActions[key] });
+    }
+  }
+  return calls.map(({ toolUse, result }) => ({
+    type: "tool_result",
+    tool_use_id: toolUse.id,
+    content: result,
+  }));
+}
+
+// Without the model
+const FALLBACK_HELP = `For example:\n${FALLBACK_EXAMPLES.map((e) => `- ${e}`).join("\n")}`;
+export const LLM_DOWN_NOTE = "The assistant is unavailable right now, so I ran this as a simple command:";
+export const LLM_DOWN_HELP = `Sorry, the assistant is unavailable right now. Simple commands still work. ${FALLBACK_HELP}\n\nSlash commands like /request, /search and /myrequests keep working too.`;
+const FALLBACK_ONLY_HELP = `I only understand simple commands here. ${FALLBACK_HELP}`;
+
+// Why the model isn't answering: shown above a simple command's output, or
+// with the examples when the message isn't one
+interface FallbackNotice {
+  note: string;
+  help: string;
+}
+
+const LLM_DOWN: FallbackNotice = { note: LLM_DOWN_NOTE, help: LLM_DOWN_HELP };
+
+function budgetNotice(budgetExceeded: string): FallbackNotice {
+  return {
+    note: `${budgetExceeded}\n\nI ran this as a simple command:`,
+    help: `${budgetExceeded}\n\nSimple commands still work. ${FALLBACK_HELP}`,
+  };
+}
+
+function normalizeTitle(title: string): string {
+  return title.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+// Search results with exactly the query's title (and its year and the type, if given)
+export async function findExactTitleMatches(
+  query: string,
+  mediaType?: "movie" | "tv"
+): Promise<SearchResult[]> {
+  const { title, year } = parseYearFromQuery(query);
+  const { results } = await seerr.search(title);
+  return results.filter(
+    (r) =>
+      (r.mediaType === "movie" || r.mediaType === "tv") &&
+      (!mediaType || r.mediaType === mediaType) &&
+      normalizeTitle(r.title || r.name || "") === normalizeTitle(title) &&
+      (!year || (r.releaseDate || r.firstAirDate || "").startsWith(year))
+  );
+}
+
+// Requests a title only when exactly one search result has that exact title
+// (and year and type, if given); otherwise shows the matches to choose from
+async function requestByTitle(
+  command: Extract<FallbackCommand, { kind: "request" }>,
+  requester: RequesterContext,
+  actions: ResponseActions
+): Promise<string> {
+  const { title } = parseYearFromQuery(command.query);
+  let matches: SearchResult[];
+  try {
+    matches = await findExactTitleMatches(command.query, command.mediaType);
+  } catch (error) {
+    return formatToolError(error);
+  }
+
+  if (matches.length !== 1) {
+    const problem =
+      matches.length === 0
+        ? `Nothing is called exactly "${title}"`
+        : `More than one title is called "${title}"`;
+    const listing = await handleToolCall("search_media", { query: command.query }, requester, actions);
+    return `${problem}; request it by its exact title and year, like "request Inception 2010".\n\n${listing}`;
+  }
+
+  const [match] = matches;
+  const input = { tmdbId: match.id, mediaType: match.mediaType, missingOnly: match.mediaType === "tv" };
+  return handleToolCall("request_media", input, requester, actions);
+}
+
+// Answers with the rule-based command parser. The exchange is kept in the
+// conversation, so the model knows about it once it is back.
+async function answerWithoutModel(
+  userMessage: string,
+  requester: RequesterContext,
+  messages: ChatMessage[],
+  actions: ResponseActions,
+  notice?: FallbackNotice
+): Promise<AgentResponse> {
+  const command = parseCommand(userMessage);
+  let result: string;
+  if (!command) {
+    result = notice?.help ?? FALLBACK_ONLY_HELP;
+  } else {
+    console.log(`Fallback command for ${requester.discordTag}:`, command);
+    const output =
+      command.kind === "tool"
+        ? await handleToolCall(command.name, command.input, requester, actions)
+        : await requestByTitle(command, requester, actions);
+    result = notice ? `${notice.note}\n\n${output}` : output;
+  }
+
+  messages.push({ role: "assistant", content: result });
+  return { result, messages, actions };
+}
+
 // Main agent function
 export interface AgentResponse {
   result: string;
-  messages: Anthropic.MessageParam[];
+  messages: ChatMessage[];
+  actions: ResponseActions;
 }
 
 export async function processMediaRequest(
   userMessage: string,
-  existingMessages?: Anthropic.MessageParam[]
+  requester: RequesterContext,
+  existingMessages?: ChatMessage[],
+  lastList?: ListCursor,
+  onProgress?: ProgressListener
 ): Promise<AgentResponse> {
-  const messages: Anthropic.MessageParam[] = existingMessages
+  const messages: ChatMessage[] = existingMessages
     ? [...existingMessages, { role: "user", content: userMessage }]
     : [{ role: "user", content: userMessage }];
+  const actions = createResponseActions(lastList);
+  const scope = settings.resolve(requester);
 
-  try {
-    let response = await anthropic.messages.create({
-      model: config.anthropic.model,
-      max_tokens: 2048,
-      system: SYSTEM_PROMPT,
-      tools,
+  if (config.agent.fallbackParserOnly) {
+    return answerWithoutModel(userMessage, requester, messages, actions);
+  }
+
+  // Over budget: simple commands still run, just without the model
+  const budgetExceeded = usageTracker.checkBudget(requester, scope);
+  if (budgetExceeded) {
+    console.log(`Daily token budget used up for ${requester.discordTag}`);
+    const notice = budgetNotice(budgetExceeded);
+    return answerWithoutModel(userMessage, requester, messages, actions, notice);
+  }
+
+  const system = `${buildSystemPrompt(scope)}\n\nToday's date: ${new Date().toISOString().slice(0, 10)}`;
+  const scopedTools = toolsFor(scope);
+  // Streamed so the reply can be shown as it is written
+  const createMessage = async () => {
+    let text = "";
+    const response = await llm.chat({
+      model: scope.model,
+      maxTokens: config.agent.maxTokens,
+      system,
+      tools: scopedTools,
       messages,
+      onText: (delta) => {
+        text += delta;
+        onProgress?.({ type: "text", text });
+      },
     });
+    usageTracker.record(requester, scope.model, response.usage);
+    return response;
+  };
+
+  try {
+    // Only the first call falls back: after it, tools may already have acted on the message
+    let response: ChatResponse;
+    try {
+      response = await createMessage();
+    } catch (error) {
+      console.error("LLM call failed, falling back to the command parser:", error);
+      return await answerWithoutModel(userMessage, requester, messages, actions, LLM_DOWN);
+    }
 
     // Handle tool use loop
-    while (response.stop_reason === "tool_use") {
+    let rounds = 0;
+    while (response.stopReason === "tool_use" && rounds < config.agent.maxToolRounds) {
+      rounds++;
       const toolUseBlocks = response.content.filter(
-        (block): block is Anthropic.ToolUseBlock => block.type === "tool_use"
+        (block): block is ToolCallBlock => block.type === "tool_use"
       );
-
-      const toolResults: Anthropic.ToolResultBlockParam[] = [];
-
-      for (const toolUse of toolUseBlocks) {
-        console.log(`Tool call: ${toolUse.name}`, toolUse.input);
-        const result = await handleToolCall(
-          toolUse.name,
-          toolUse.input as Record<string, unknown>
-        );
-        console.log(`Tool result: ${result.slice(0, 200)}...`);
-
-        toolResults.push({
-          type: "tool_result",
-          tool_use_id: toolUse.id,
-          content: result,
-        });
-      }
+      const toolResults = await runToolCalls(toolUseBlocks, requester, actions, onProgress);
 
       messages.push({ role: "assistant", content: response.content });
       messages.push({ role: "user", content: toolResults });
 
-      response = await anthropic.messages.create({
-        model: config.anthropic.model,
-        max_tokens: 2048,
-        system: SYSTEM_PROMPT,
-        tools,
-        messages,
-      });
+      response = await createMessage();
     }
 
     // Extract text response
-    const textBlocks = response.content.filter(
-      (block): block is Anthropic.TextBlock => block.type === "text"
-    );
+    const text = response.content
+      .filter((block): block is TextBlock => block.type === "text")
+      .map((block) => block.text)
+      .join("\n");
+
+    // Out of tool rounds, or cut off at max_tokens (possibly mid tool call). Tool
+    // calls that won't be answered can't be stored, so keep what the user saw.
+    const note =
+      response.stopReason === "tool_use"
+        ? GAVE_UP_NOTE
+        : response.stopReason === "max_tokens"
+          ? CUT_OFF_NOTE
+          : undefined;
+    if (note) {
+      console.warn(`Agent stopped early (${response.stopReason}) for ${requester.discordTag}`);
+      const result = text ? `${text}\n\n${note}` : note;
+      messages.push({ role: "assistant", content: result });
+      return { result, messages, actions };
+    }
 
     // Add assistant response to messages for context
     messages.push({ role: "assistant", content: response.content });
 
     return {
-      result: textBlocks.map((block) => block.text).join("\n") || "No response",
+      result: text || "No response",
       messages,
+      actions,
     };
   } catch (error) {
     console.error("Agent error:", error);
     return {
       result: "Sorry, I encountered an error processing your request. Please try again.",
       messages,
+      actions,
     };
   }
 }
@@ -0,0 +1,118 @@
+import { config } from "./config.js";
+
+// How long a cached response stays fresh depends on what it holds:
+// titles and seasons barely change, ratings drift, request status moves fast
+export type CacheKind = "metadata" | "ratings" | "status";
+
+interface CacheEntry {
+  value: unknown;
+  fetchedAt: number;
+}
+
+export interface CacheMetrics {
+  hits: number;
+  misses: number;
+  /** Lookups that joined a fetch already in flight */
+  deduplicated: number;
+  invalidations: number;
+  size: number;
+}
+
+const MAX_ENTRIES = 2000;
+const METRICS_LOG_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+
+class ResponseCache {
+  private entries = new Map<string, CacheEntry>();
+  private inflight = new Map<string, Promise<unknown>>();
+  private counters = { hits: 0, misses: 0, deduplicated: 0, invalidations: 0 };
+
+  private maxAge(kind: CacheKind): number {
+    return config.cache.ttlSeconds[kind] * 1000;
+  }
+
+  // Return a fresh cached value, join an identical fetch in flight, or load it.
+  // Loaded values failing `isCacheable` are returned but not stored.
+  async get<T>(
+    key: string,
+    kind: CacheKind,
+    load: () => Promise<T>,
+    isCacheable: (value: T) => boolean = () => true
+  ): Promise<T> {
+    const entry = this.entries.get(key);
+    if (entry && Date.now() - entry.fetchedAt < this.maxAge(kind)) {
+      this.counters.hits++;
+      return entry.value as T;
+    }
+
+    const pending = this.inflight.get(key);
+    if (pending) {
+      this.counters.deduplicated++;
+      return pending as Promise<T>;
+    }
+
+    this.counters.misses++;
+    const promise = load()
+      .then((value) => {
+        // Skip storing if the key was invalidated while we were fetching
+        if (this.inflight.get(key) === promise && isCacheable(value)) this.store(key, value);
+        return value;
+      })
+      .finally(() => {
+        if (this.inflight.get(key) === promise) this.inflight.delete(key);
+      });
+    this.inflight.set(key, promise);
+    return promise;
+  }
+
+  // Drop a key and everything nested under it, e.g. "tv:1396" also drops "tv:1396:season:2"
+  invalidate(key: string): void {
+    const prefix = `${key}:`;
+    for (const map of [this.entries, this.inflight]) {
+      for (const existing of map.keys()) {
+        if (existing === key || existing.startsWith(prefix)) map.delete(existing);
+      }
+    }
+    this.counters.invalidations++;
+  }
+
+  metrics(): CacheMetrics {
+    return { ...this.counters, size: this.entries.size };
+  }
+
+  private store(key: string, value: unknown): void {
+    // Re-insert so the Map's order doubles as least-recently-fetched order
+    this.entries.delete(key);
+    this.entries.set(key, { value, fetchedAt: Date.now() });
+    if (this.entries.size > MAX_ENTRIES) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest !== undefined) this.entries.delete(oldest);
+    }
+  }
+
+  // Drop entries too old to be fresh for any kind
+  prune(): void {
+    const maxAge = Math.max(...Object.values(config.cache.ttlSeconds)) * 1000;
+    const cutoff = Date.now() - maxAge;
+    for (const [key, entry] of this.entries) {
+      if (entry.fetchedAt < cutoff) this.entries.delete(key);
+    }
+  }
+}
+
+export const cache = new ResponseCache();
+
+// Forget everything cached about a title after one of its requests changed status
+export function invalidateMedia(mediaType: "movie" | "tv", tmdbId: number): void {
+  cache.invalidate(`${mediaType}:${tmdbId}`);
+}
+
+export function formatCacheMetrics(metrics: CacheMetrics): string {
+  const lookups = metrics.hits + metrics.misses + metrics.deduplicated;
+  const hitRate = lookups > 0 ? Math.round(((metrics.hits + metrics.deduplicated) / lookups) * 100) : 0;
+  return `${metrics.hits} hits, ${metrics.misses} misses, ${metrics.deduplicated} de-duplicated (${hitRate}% served from cache), ${metrics.invalidations} invalidations, ${metrics.size} entries`;
+}
+
+setInterval(() => {
+  cache.prune();
+  console.log(`Response cache: ${formatCacheMetrics(cache.metrics())}`);
+}, METRICS_LOG_INTERVAL_MS).unref();
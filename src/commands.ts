@@ -0,0 +1,372 @@
+import {
+  SlashCommandBuilder,
+  type AutocompleteInteraction,
+  type ChatInputCommandInteraction,
+  type Client,
+} from "discord.js";
+import {
+  createResponseActions,
+  findExactTitleMatches,
+  formatToolOutputForUser,
+  handleToolCall,
+} from "./agent/index.js";
+import type { RequesterContext, ResponseActions } from "./agent/index.js";
+import { seerr } from "./services/seerr.js";
+import { buildResponseMessages } from "./formatting.js";
+import { buildRequesterContext } from "./requester.js";
+import { attachComponents } from "./components.js";
+import { sessionManager } from "./sessions.js";
+import { formatErrorMessage } from "./utils.js";
+import { canManageRequests } from "./permissions.js";
+import { usageTracker } from "./usage.js";
+
+interface MediaRef {
+  tmdbId: number;
+  mediaType: "movie" | "tv";
+}
+
+// Discord drops autocomplete answers after 3 seconds, so don't wait on retries
+const AUTOCOMPLETE_CALL = { timeoutMs: 2000, retries: 0 };
+
+const REQUEST_FILTERS = ["pending", "approved", "processing", "available", "failed"];
+
+function addMediaOption(builder: SlashCommandBuilder, description: string) {
+  return builder.addStringOption((option) =>
+    option
+      .setName("title")
+      .setDescription(description)
+      .setRequired(true)
+      .setAutocomplete(true)
+  );
+}
+
+const commands = [
+  addMediaOption(
+    new SlashCommandBuilder().setName("request").setDescription("Request a movie or TV show"),
+    "Movie or TV show to request"
+  ).addStringOption((option) =>
+    option
+      .setName("seasons")
+      .setDescription('TV only: "missing", "all", "latest" or a list like "1,2" or "1-3" (default: missing)')
+  ),
+  new SlashCommandBuilder()
+    .setName("search")
+    .setDescription("Search for movies and TV shows")
+    .addStringOption((option) =>
+      option.setName("query").setDescription("Title, optionally with year").setRequired(true)
+    ),
+  new SlashCommandBuilder()
+    .setName("requests")
+    .setDescription("List media requests")
+    .addStringOption((option) =>
+      option
+        .setName("filter")
+        .setDescription("Request status (default: pending)")
+        .addChoices(...REQUEST_FILTERS.map((filter) => ({ name: filter, value: filter })))
+    )
+    .addIntegerOption((option) => option.setName("page").setDescription("Page number").setMinValue(1)),
+  new SlashCommandBuilder()
+    .setName("myrequests")
+    .setDescription("List your own requests")
+    .addStringOption((option) =>
+      option
+        .setName("filter")
+        .setDescription("Request status (default: all)")
+        .addChoices(
+          ...["all", ...REQUEST_FILTERS].map((filter) => ({ name: filter, value: filter }))
+        )
+    )
+    .addIntegerOption((option) => option.setName("page").setDescription("Page number").setMinValue(1)),
+  new SlashCommandBuilder()
+    .setName("quota")
+    .setDescription("Show how many movie and TV season requests you have left"),
+  new SlashCommandBuilder()
+    .setName("approve")
+    .setDescription("Approve a pending request")
+    .addIntegerOption((option) =>
+      option.setName("id").setDescription("Request ID").setRequired(true).setMinValue(1)
+    ),
+  new SlashCommandBuilder()
+    .setName("decline")
+    .setDescription("Decline a pending request")
+    .addIntegerOption((option) =>
+      option.setName("id").setDescription("Request ID").setRequired(true).setMinValue(1)
+    ),
+  new SlashCommandBuilder()
+    .setName("trending")
+    .setDescription("Show trending movies and TV shows")
+    .addStringOption((option) =>
+      option
+        .setName("type")
+        .setDescription("Media type (default: all)")
+        .addChoices(
+          { name: "all", value: "all" },
+          { name: "movies", value: "movie" },
+          { name: "tv", value: "tv" }
+        )
+    ),
+  new SlashCommandBuilder()
+    .setName("upcoming")
+    .setDescription("Show upcoming movies or TV shows")
+    .addStringOption((option) =>
+      option
+        .setName("type")
+        .setDescription("Media type")
+        .setRequired(true)
+        .addChoices({ name: "movies", value: "movie" }, { name: "tv", value: "tv" })
+    ),
+  addMediaOption(
+    new SlashCommandBuilder().setName("similar").setDescription("Find similar movies or TV shows"),
+    "Movie or TV show to find similar titles for"
+  ),
+  addMediaOption(
+    new SlashCommandBuilder().setName("ratings").setDescription("Show Rotten Tomatoes and IMDB ratings"),
+    "Movie or TV show"
+  ),
+  new SlashCommandBuilder()
+    .setName("usage")
+    .setDescription("Show assistant token usage (admins only)")
+    .addIntegerOption((option) =>
+      option
+        .setName("days")
+        .setDescription("How many days back (default: 7)")
+        .setMinValue(1)
+        .setMaxValue(90)
+    ),
+];
+
+// Replies only the caller can see
+const EPHEMERAL_COMMANDS = new Set(["usage"]);
+
+export async function registerCommands(client: Client): Promise<void> {
+  await client.application?.commands.set(commands.map((command) => command.toJSON()));
+  console.log(`Registered ${commands.length} slash commands`);
+}
+
+// Autocomplete values are encoded as "<mediaType>:<tmdbId>"
+function parseMediaValue(value: string): MediaRef | null {
+  const match = value.match(/^(movie|tv):(\d+)$/);
+  return match ? { mediaType: match[1] as "movie" | "tv", tmdbId: Number(match[2]) } : null;
+}
+
+// A typed title that wasn't picked from the suggestions is only used when exactly
+// one result has that title; otherwise the matches are listed to pick from
+async function resolveMediaOption(
+  value: string,
+  requester: RequesterContext,
+  actions: ResponseActions
+): Promise<MediaRef | string> {
+  const parsed = parseMediaValue(value);
+  if (parsed) return parsed;
+
+  const matches = await findExactTitleMatches(value);
+  if (matches.length === 1) {
+    return { tmdbId: matches[0].id, mediaType: matches[0].mediaType as "movie" | "tv" };
+  }
+  const listing = await handleToolCall("search_media", { query: value }, requester, actions);
+  if (actions.choices.length === 0) {
+    return "No matching movie or TV show found.";
+  }
+  const problem =
+    matches.length === 0
+      ? `Nothing is called exactly "${value}"`
+      : `More than one title is called "${value}"`;
+  const hint =
+    actions.choices.length > 1
+      ? "Pick one below, or choose a suggestion while typing the title."
+      : "Choose it from the suggestions while typing the title.";
+  return `${problem}. ${hint}\n\n${listing}`;
+}
+
+async function resolveSeasons(tmdbId: number, spec: string): Promise<number[]> {
+  const tv = await seerr.getTvDetails(tmdbId);
+  const available = tv.seasons.map((s) => s.seasonNumber).filter((n) => n > 0);
+  if (spec === "all" || spec === "latest") {
+    return spec === "all" ? available : available.slice(-1);
+  }
+
+  // Only real seasons, so a range like "1-999999999" can't run away
+  const seasons = new Set<number>();
+  for (const part of spec.split(",")) {
+    const range = part.trim().match(/^(\d+)(?:\s*-\s*(\d+))?$/);
+    const start = Number(range?.[1]);
+    const end = range?.[2] ? Number(range[2]) : start;
+    if (!range || start > end || !available.includes(start) || !available.includes(end)) {
+      const known = available.length ? `${tv.name} has seasons ${available.join(", ")}.` : "";
+      throw new Error(
+        `Invalid season list "${spec}". Use "missing", "all", "latest", "1,2" or "1-3". ${known}`.trim()
+      );
+    }
+    for (const n of available) {
+      if (n >= start && n <= end) seasons.add(n);
+    }
+  }
+  return [...seasons];
+}
+
+async function runCommand(
+  interaction: ChatInputCommandInteraction,
+  actions: ResponseActions
+): Promise<string> {
+  const requester = await buildRequesterContext({
+    user: interaction.user,
+    guildId: interaction.guildId,
+    channelId: interaction.channelId,
+    member: interaction.member,
+  });
+  const options = interaction.options;
+
+  switch (interaction.commandName) {
+    case "request":
+    case "similar":
+    case "ratings": {
+      const media = await resolveMediaOption(options.getString("title", true), requester, actions);
+      if (typeof media === "string") {
+        return media;
+      }
+      if (interaction.commandName === "similar") {
+        return handleToolCall("get_similar", { ...media }, requester, actions);
+      }
+      if (interaction.commandName === "ratings") {
+        return handleToolCall("get_ratings", { ...media }, requester, actions);
+      }
+      const seasonSpec = options.getString("seasons")?.trim().toLowerCase() || "missing";
+      if (media.mediaType === "movie" || seasonSpec === "missing") {
+        return handleToolCall(
+          "request_media",
+          { ...media, missingOnly: media.mediaType === "tv" },
+          requester,
+          actions
+        );
+      }
+      const seasons = await resolveSeasons(media.tmdbId, seasonSpec);
+      return handleToolCall("request_media", { ...media, seasons }, requester, actions);
+    }
+    case "search":
+      return handleToolCall(
+        "search_media",
+        { query: options.getString("query", true) },
+        requester,
+        actions
+      );
+    case "requests":
+      return handleToolCall(
+        "list_requests",
+        {
+          filter: options.getString("filter") ?? undefined,
+          page: options.getInteger("page") ?? undefined,
+        },
+        requester,
+        actions
+      );
+    case "myrequests":
+      return handleToolCall(
+        "my_requests",
+        {
+          filter: options.getString("filter") ?? undefined,
+          page: options.getInteger("page") ?? undefined,
+        },
+        requester,
+        actions
+      );
+    case "quota":
+      return handleToolCall("get_quota", {}, requester, actions);
+    case "approve":
+      return handleToolCall(
+        "approve_request",
+        { requestId: options.getInteger("id", true) },
+        requester,
+        actions
+      );
+    case "decline":
+      return handleToolCall(
+        "decline_request",
+        { requestId: options.getInteger("id", true) },
+        requester,
+        actions
+      );
+    case "trending":
+      return handleToolCall(
+        "discover_trending",
+        { mediaType: options.getString("type") ?? undefined },
+        requester,
+        actions
+      );
+    case "upcoming":
+      return handleToolCall(
+        "discover_upcoming",
+        { mediaType: options.getString("type", true) },
+        requester,
+        actions
+      );
+    case "usage":
+      // Managers see their own server; in DMs, Seerr admins see everything
+      if (!canManageRequests(requester)) {
+        return "Only admins can view token usage.";
+      }
+      return usageTracker.formatReport(options.getInteger("days") ?? 7, requester.guildId);
+    default:
+      return `Unknown command: ${interaction.commandName}`;
+  }
+}
+
+export async function handleCommandInteraction(
+  interaction: ChatInputCommandInteraction
+): Promise<void> {
+  console.log(`Slash command from ${interaction.user.tag}: /${interaction.commandName}`);
+
+  try {
+    const ephemeral = EPHEMERAL_COMMANDS.has(interaction.commandName);
+    await interaction.deferReply({ ephemeral });
+    const actions = createResponseActions();
+    // Tool output is written for the model; the Previous/Next buttons stand in for next_page
+    const response = formatToolOutputForUser(await runCommand(interaction, actions));
+    if (actions.list) {
+      // Let the Previous/Next buttons and "next page" pick up from here
+      sessionManager.setListCursor(interaction.user.id, actions.list);
+    }
+
+    const [first, ...rest] = attachComponents(buildResponseMessages(response), actions);
+    await interaction.editReply(first);
+    for (const reply of rest) {
+      await interaction.followUp({ ...reply, ephemeral });
+    }
+  } catch (error) {
+    console.error(`Error handling /${interaction.commandName}:`, error);
+    const reply = `Sorry, something went wrong: ${formatErrorMessage(error)}`;
+    if (interaction.deferred || interaction.replied) {
+      await interaction.editReply(reply).catch(() => {});
+    } else {
+      await interaction.reply(reply).catch(() => {});
+    }
+  }
+}
+
+export async function handleAutocomplete(interaction: AutocompleteInteraction): Promise<void> {
+  const query = interaction.options.getFocused().trim();
+  if (query.length < 2) {
+    await interaction.respond([]).catch(() => {});
+    return;
+  }
+
+  try {
+    const response = await seerr.search(query, 1, AUTOCOMPLETE_CALL);
+    const choices = response.results
+      .filter((r) => r.mediaType === "movie" || r.mediaType === "tv")
+      .slice(0, 25)
+      .map((r) => {
+        const title = r.title || r.name || "Unknown";
+        const year = (r.releaseDate || r.firstAirDate || "").slice(0, 4);
+        const type = r.mediaType === "movie" ? "Movie" : "TV";
+        return {
+          name: `${title}${year ? ` (${year})` : ""} - ${type}`.slice(0, 100),
+          value: `${r.mediaType}:${r.id}`,
+        };
+      });
+    await interaction.respond(choices);
+  } catch (error) {
+    // Autocomplete must answer within 3 seconds; an empty list beats an error
+    console.error("Autocomplete search failed:", error);
+    await interaction.respond([]).catch(() => {});
+  }
+}
@@ -0,0 +1,324 @@
+import { createHash } from "node:crypto";
+import {
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonStyle,
+  StringSelectMenuBuilder,
+  type ButtonInteraction,
+  type MessageActionRowComponentBuilder,
+  type StringSelectMenuInteraction,
+} from "discord.js";
+import { createResponseActions, formatToolOutputForUser, handleToolCall } from "./agent/index.js";
+import type { RequesterContext, ResponseActions } from "./agent/index.js";
+import { seerr } from "./services/seerr.js";
+import { buildResponseMessages, type ResponseMessage } from "./formatting.js";
+import { buildRequesterContext } from "./requester.js";
+import { converse } from "./conversation.js";
+import { sessionManager } from "./sessions.js";
+import { formatErrorMessage, getMissingSeasons } from "./utils.js";
+
+type ActionRow = ActionRowBuilder<MessageActionRowComponentBuilder>;
+
+// Discord allows 5 action rows per message and 25 options per select menu
+const MAX_ROWS = 5;
+const MAX_SELECT_OPTIONS = 25;
+
+// Custom IDs are "<action>:<args...>", e.g. "request:tv:1396" or "approve:42"
+const PICK_ID = "pick";
+
+function buildMediaRow(media: NonNullable<ResponseActions["media"]>): ActionRow {
+  const row = new ActionRowBuilder<MessageActionRowComponentBuilder>();
+
+  if (media.mediaType === "movie") {
+    row.addComponents(
+      new ButtonBuilder()
+        .setCustomId(`request:movie:${media.tmdbId}`)
+        .setLabel("Request")
+        .setStyle(ButtonStyle.Primary)
+    );
+  } else {
+    row.addComponents(
+      new ButtonBuilder()
+        .setCustomId(`request-all:tv:${media.tmdbId}`)
+        .setLabel("Request all seasons")
+        .setStyle(ButtonStyle.Primary)
+    );
+    // Only differs from "all" once some seasons are in or on their way
+    if (media.seasons.length < media.allSeasons.length) {
+      row.addComponents(
+        new ButtonBuilder()
+          .setCustomId(`request:tv:${media.tmdbId}`)
+          .setLabel("Request missing seasons")
+          .setStyle(ButtonStyle.Secondary)
+      );
+    }
+    row.addComponents(
+      new ButtonBuilder()
+        .setCustomId(`seasons:tv:${media.tmdbId}`)
+        .setLabel("Pick seasons")
+        .setStyle(ButtonStyle.Secondary)
+        .setDisabled(media.seasons.length === 0)
+    );
+  }
+  return row;
+}
+
+function buildPickRow(actions: ResponseActions): ActionRow {
+  const menu = new StringSelectMenuBuilder()
+    .setCustomId(PICK_ID)
+    .setPlaceholder("Pick a result")
+    .addOptions(
+      actions.choices.slice(0, MAX_SELECT_OPTIONS).map((choice) => ({
+        label: choice.label.slice(0, 100),
+        value: `${choice.mediaType}:${choice.tmdbId}`,
+      }))
+    );
+  return new ActionRowBuilder<MessageActionRowComponentBuilder>().addComponents(menu);
+}
+
+type ListCursor = NonNullable<ResponseActions["list"]>;
+
+// Custom IDs are too short for the list's input, so the cursor lives in the
+// session and buttons carry a fingerprint to check it is still the same list
+function fingerprintList(list: ListCursor): string {
+  return createHash("sha1").update(`${list.tool}:${JSON.stringify(list.input)}`).digest("hex").slice(0, 10);
+}
+
+function buildPageRow(list: ListCursor): ActionRow {
+  const key = fingerprintList(list);
+  return new ActionRowBuilder<MessageActionRowComponentBuilder>().addComponents(
+    new ButtonBuilder()
+      .setCustomId(`page:${key}:${list.page - 1}`)
+      .setLabel("Previous")
+      .setStyle(ButtonStyle.Secondary)
+      .setDisabled(list.page <= 1),
+    new ButtonBuilder()
+      .setCustomId(`page:${key}:${list.page + 1}`)
+      .setLabel("Next")
+      .setStyle(ButtonStyle.Secondary)
+      .setDisabled(!list.hasMore)
+  );
+}
+
+function buildApprovalRow(requestId: number): ActionRow {
+  return new ActionRowBuilder<MessageActionRowComponentBuilder>().addComponents(
+    new ButtonBuilder()
+      .setCustomId(`approve:${requestId}`)
+      .setLabel(`Approve #${requestId}`)
+      .setStyle(ButtonStyle.Success),
+    new ButtonBuilder()
+      .setCustomId(`decline:${requestId}`)
+      .setLabel(`Decline #${requestId}`)
+      .setStyle(ButtonStyle.Danger)
+  );
+}
+
+export function buildActionRows(actions: ResponseActions): ActionRow[] {
+  const rows: ActionRow[] = [];
+
+  if (actions.media) {
+    rows.push(buildMediaRow(actions.media));
+  }
+  if (actions.choices.length > 1) {
+    rows.push(buildPickRow(actions));
+  }
+  if (actions.list && (actions.list.page > 1 || actions.list.hasMore)) {
+    rows.push(buildPageRow(actions.list));
+  }
+
+  return rows;
+}
+
+// Put components on the last message so they sit below the full reply. Approval
+// buttons that don't fit there go in follow-up messages, so every request gets them.
+export function attachComponents(
+  messages: ResponseMessage[],
+  actions: ResponseActions
+): ResponseMessage[] {
+  if (messages.length === 0) return messages;
+  const rows = buildActionRows(actions);
+  const approvalRows = actions.pendingRequestIds.map(buildApprovalRow);
+  rows.push(...approvalRows.splice(0, MAX_ROWS - rows.length));
+
+  const followUps: ResponseMessage[] = [];
+  while (approvalRows.length > 0) {
+    followUps.push({ content: "More pending requests:", components: approvalRows.splice(0, MAX_ROWS) });
+  }
+  if (rows.length === 0) return messages;
+
+  const last = messages[messages.length - 1];
+  return [...messages.slice(0, -1), { ...last, components: rows }, ...followUps];
+}
+
+async function buildSeasonPicker(tmdbId: number): Promise<ResponseMessage> {
+  const tv = await seerr.getTvDetails(tmdbId);
+  const missing = getMissingSeasons(tv);
+  const seasons = tv.seasons
+    .filter((s) => missing.includes(s.seasonNumber))
+    .slice(0, MAX_SELECT_OPTIONS);
+  if (seasons.length === 0) {
+    return { content: `Every season of ${tv.name} is already available or requested.` };
+  }
+
+  const menu = new StringSelectMenuBuilder()
+    .setCustomId(`request-seasons:tv:${tmdbId}`)
+    .setPlaceholder(`Seasons of ${tv.name} to request`)
+    .setMinValues(1)
+    .setMaxValues(seasons.length)
+    .addOptions(
+      seasons.map((s) => ({
+        label: `Season ${s.seasonNumber}`,
+        description: `${s.episodeCount} episodes${s.airDate ? ` (${s.airDate.slice(0, 4)})` : ""}`,
+        value: s.seasonNumber.toString(),
+      }))
+    );
+
+  return {
+    content: `Which seasons of ${tv.name} do you want?`,
+    components: [new ActionRowBuilder<MessageActionRowComponentBuilder>().addComponents(menu)],
+  };
+}
+
+function buildComponentRequester(
+  interaction: ButtonInteraction | StringSelectMenuInteraction
+): Promise<RequesterContext> {
+  return buildRequesterContext({
+    user: interaction.user,
+    guildId: interaction.guildId,
+    channelId: interaction.channelId,
+    member: interaction.member,
+  });
+}
+
+// Tool output goes straight to the user here, without the model in between
+function buildToolMessages(result: string): ResponseMessage[] {
+  return buildResponseMessages(formatToolOutputForUser(result));
+}
+
+async function runComponent(
+  interaction: ButtonInteraction | StringSelectMenuInteraction
+): Promise<ResponseMessage[]> {
+  const requester = await buildComponentRequester(interaction);
+  const [action, ...args] = interaction.customId.split(":");
+  const actions = createResponseActions();
+
+  switch (action) {
+    case PICK_ID: {
+      // Continue the conversation so follow-ups like "request it" keep working
+      const value = (interaction as StringSelectMenuInteraction).values[0];
+      const [mediaType, tmdbId] = value.split(":");
+      const option = (interaction as StringSelectMenuInteraction).component.options.find(
+        (o) => o.value === value
+      );
+      const response = await converse(
+        `Show me details for ${option?.label ?? "this title"} (TMDB ID ${tmdbId}, ${mediaType}).`,
+        requester
+      );
+      return attachComponents(buildResponseMessages(response.result), response.actions);
+    }
+    case "request": {
+      const [mediaType, tmdbId] = [args[0] as "movie" | "tv", Number(args[1])];
+      const result = await handleToolCall(
+        "request_media",
+        { tmdbId, mediaType, missingOnly: mediaType === "tv" },
+        requester,
+        actions
+      );
+      return buildToolMessages(result);
+    }
+    case "request-all": {
+      const tmdbId = Number(args[1]);
+      const tv = await seerr.getTvDetails(tmdbId);
+      const seasons = tv.seasons.map((s) => s.seasonNumber).filter((n) => n > 0);
+      const result = await handleToolCall(
+        "request_media",
+        { tmdbId, mediaType: "tv", seasons },
+        requester,
+        actions
+      );
+      return buildToolMessages(result);
+    }
+    case "seasons":
+      return [await buildSeasonPicker(Number(args[1]))];
+    case "request-seasons": {
+      const seasons = (interaction as StringSelectMenuInteraction).values.map(Number);
+      const result = await handleToolCall(
+        "request_media",
+        { tmdbId: Number(args[1]), mediaType: "tv", seasons },
+        requester,
+        actions
+      );
+      return buildToolMessages(result);
+    }
+    case "approve":
+    case "decline": {
+      const result = await handleToolCall(
+        `${action}_request`,
+        { requestId: Number(args[0]) },
+        requester,
+        actions
+      );
+      return buildToolMessages(result);
+    }
+    default:
+      return [{ content: "This button is no longer supported." }];
+  }
+}
+
+// Previous/Next replace the list in place instead of posting another reply
+async function turnPage(interaction: ButtonInteraction, key: string, page: number): Promise<void> {
+  const cursor = sessionManager.getListCursor(interaction.user.id);
+  if (!cursor || fingerprintList(cursor) !== key) {
+    await interaction.reply({
+      content: "This list has expired or belongs to someone else. Ask again for a fresh one.",
+      ephemeral: true,
+    });
+    return;
+  }
+
+  await interaction.deferUpdate();
+  const requester = await buildComponentRequester(interaction);
+  const actions = createResponseActions();
+  const result = await handleToolCall(cursor.tool, { ...cursor.input, page }, requester, actions);
+  if (actions.list) sessionManager.setListCursor(interaction.user.id, actions.list);
+
+  const [first, ...rest] = attachComponents(buildToolMessages(result), actions);
+  // Clear whatever the previous page had that this one doesn't
+  await interaction.editReply({
+    content: first.content ?? null,
+    embeds: first.embeds ?? [],
+    components: first.components ?? [],
+  });
+  for (const reply of rest) {
+    await interaction.followUp(reply);
+  }
+}
+
+export async function handleComponentInteraction(
+  interaction: ButtonInteraction | StringSelectMenuInteraction
+): Promise<void> {
+  console.log(`Component interaction from ${interaction.user.tag}: ${interaction.customId}`);
+
+  try {
+    const [action, key, page] = interaction.customId.split(":");
+    if (action === "page" && interaction.isButton()) {
+      await turnPage(interaction, key, Number(page));
+      return;
+    }
+
+    await interaction.deferReply();
+    const [first, ...rest] = await runComponent(interaction);
+    await interaction.editReply(first);
+    for (const reply of rest) {
+      await interaction.followUp(reply);
+    }
+  } catch (error) {
+    console.error(`Error handling component ${interaction.customId}:`, error);
+    const reply = `Sorry, something went wrong: ${formatErrorMessage(error)}`;
+    // A failed page turn keeps the list it was on
+    const send = interaction.customId.startsWith("page:")
+      ? interaction.followUp({ content: reply, ephemeral: true })
+      : interaction.editReply(reply);
+    await send.catch(() => {});
+  }
+}
@@ -1,4 +1,7 @@
+import { existsSync } from "node:fs";
 import dotenv from "dotenv";
+import { checkGenreDefaults } from "./validation.js";
+import type { RequestOverrides } from "./types/index.js";
 
 dotenv.config();
 
@@ -10,19 +13,213 @@ function requireEnv(name: string): string {
   return value;
 }
 
+function parseList(value: string | undefined): string[] {
+  return (value || "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+function parsePositiveNumber(name: string, fallback: number): number {
+  const value = process.env[name];
+  if (!value) return fallback;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    throw new Error(`Environment variable ${name} must be a positive number, got "${value}"`);
+  }
+  return parsed;
+}
+
+function parseNonNegativeInteger(name: string, fallback: number): number {
+  const value = process.env[name];
+  if (!value) return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new Error(`Environment variable ${name} must be a whole number, got "${value}"`);
+  }
+  return parsed;
+}
+
+function parsePositiveInteger(name: string, fallback: number): number {
+  const value = process.env[name];
+  if (!value) return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error(`Environment variable ${name} must be a positive whole number, got "${value}"`);
+  }
+  return parsed;
+}
+
+function parseBoolean(name: string, fallback: boolean): boolean {
+  const value = process.env[name]?.toLowerCase();
+  if (!value) return fallback;
+  if (value === "true" || value === "1") return true;
+  if (value === "false" || value === "0") return false;
+  throw new Error(`Environment variable ${name} must be true or false, got "${value}"`);
+}
+
+function parseSessionStore(): "memory" | "sqlite" {
+  const value = process.env.SESSION_STORE || "sqlite";
+  if (value !== "memory" && value !== "sqlite") {
+    throw new Error(`Environment variable SESSION_STORE must be "memory" or "sqlite", got "${value}"`);
+  }
+  return value;
+}
+
+function parseWebhookConfig() {
+  const port = process.env.WEBHOOK_PORT ? parsePositiveNumber("WEBHOOK_PORT", 0) : undefined;
+  if (port && !process.env.WEBHOOK_SECRET) {
+    throw new Error("WEBHOOK_SECRET is required when WEBHOOK_PORT is set");
+  }
+  return {
+    port,
+    secret: process.env.WEBHOOK_SECRET || "",
+  };
+}
+
+// Self-hosted servers know max_tokens; newer OpenAI models (o-series, GPT-5) reject
+// it and want max_completion_tokens
+function parseMaxTokensField(): "max_tokens" | "max_completion_tokens" {
+  const value = process.env.OPENAI_MAX_TOKENS_FIELD || "max_tokens";
+  if (value !== "max_tokens" && value !== "max_completion_tokens") {
+    throw new Error(
+      `Environment variable OPENAI_MAX_TOKENS_FIELD must be "max_tokens" or "max_completion_tokens", got "${value}"`
+    );
+  }
+  return value;
+}
+
+function parseLlmConfig() {
+  const provider = process.env.LLM_PROVIDER || "anthropic";
+  switch (provider) {
+    case "anthropic":
+      return {
+        provider: "anthropic" as const,
+        apiKey: requireEnv("ANTHROPIC_API_KEY"),
+        // Alternative endpoint, e.g. a proxy or the fake server used by the tests
+        baseUrl: process.env.ANTHROPIC_BASE_URL || undefined,
+        model: process.env.CLAUDE_MODEL || "claude-haiku-4-5-20251001",
+      };
+    case "openai":
+      // Any chat completions server: OpenAI, or a self-hosted one like Ollama or vLLM
+      return {
+        provider: "openai" as const,
+        // Local servers usually don't need a key
+        apiKey: process.env.OPENAI_API_KEY || undefined,
+        baseUrl: requireEnv("OPENAI_BASE_URL").replace(/\/$/, ""),
+        model: requireEnv("OPENAI_MODEL"),
+        maxTokensField: parseMaxTokensField(),
+      };
+    default:
+      throw new Error(
+        `Environment variable LLM_PROVIDER must be "anthropic" or "openai", got "${provider}"`
+      );
+  }
+}
+
+// Per-genre request defaults, e.g. {"animation": {"rootFolder": "/media/anime"}}
+function parseGenreDefaults(): Record<string, RequestOverrides> {
+  const value = process.env.REQUEST_GENRE_DEFAULTS;
+  if (!value) return {};
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    throw new Error("Environment variable REQUEST_GENRE_DEFAULTS must be valid JSON");
+  }
+  const errors: string[] = [];
+  checkGenreDefaults(parsed, "REQUEST_GENRE_DEFAULTS", errors);
+  if (errors.length > 0) {
+    const list = errors.map((error) => `  - ${error}`).join("\n");
+    throw new Error(`Environment variable REQUEST_GENRE_DEFAULTS is invalid:\n${list}`);
+  }
+
+  return Object.fromEntries(
+    Object.entries(parsed as Record<string, RequestOverrides>).map(([genre, overrides]) => [
+      genre.toLowerCase(),
+      overrides,
+    ])
+  );
+}
+
+// Optional JSON file with per-guild and per-channel settings (see settings.ts)
+function findSettingsFile(): string | undefined {
+  const path = process.env.CONFIG_FILE;
+  if (path && !existsSync(path)) {
+    throw new Error(`CONFIG_FILE points to ${path}, which does not exist`);
+  }
+  return path || (existsSync("config.json") ? "config.json" : undefined);
+}
+
+const dataDir = process.env.DATA_DIR || "data";
+
+// Model, manager roles, 4K, genre defaults, budgets and session TTL below are only
+// defaults: read them through settings.ts so the config file can override them
+
 export const config = {
+  settingsFile: findSettingsFile(),
   discord: {
     token: requireEnv("DISCORD_BOT_TOKEN"),
+    // Members with any of these roles may approve and decline requests
+    managerRoleIds: parseList(process.env.DISCORD_MANAGER_ROLE_IDS),
+    // Moderation channel where pending requests are posted for approval
+    approvalChannelId: process.env.APPROVAL_CHANNEL_ID || undefined,
   },
   seerr: {
     url: requireEnv("SEERR_URL"),
     apiKey: requireEnv("SEERR_API_KEY"),
+    // Link shown to users, when SEERR_URL is an internal address
+    publicUrl: (process.env.SEERR_PUBLIC_URL || requireEnv("SEERR_URL")).replace(/\/$/, ""),
+    // Allow requesting 4K versions (needs 4K Radarr/Sonarr servers in Seerr)
+    enable4k: parseBoolean("ENABLE_4K", false),
+    genreDefaults: parseGenreDefaults(),
   },
   omdb: {
     apiKey: requireEnv("OMDB_API_KEY"),
+    url: (process.env.OMDB_URL || "https://www.omdbapi.com").replace(/\/$/, ""),
+  },
+  // Chat model API the agent talks to
+  llm: parseLlmConfig(),
+  // Limits on a single message's run through the agent
+  agent: {
+    // Model turns that may call tools before the bot gives up on the message
+    maxToolRounds: parsePositiveInteger("AGENT_MAX_TOOL_ROUNDS", 8),
+    toolTimeoutMs: parsePositiveNumber("AGENT_TOOL_TIMEOUT_MS", 30_000),
+    maxTokens: parsePositiveInteger("AGENT_MAX_TOKENS", 2048),
+    // Answer with the rule-based command parser only, never calling the LLM
+    fallbackParserOnly: parseBoolean("FALLBACK_PARSER_ONLY", false),
+  },
+  storage: {
+    dataDir,
+  },
+  // Listener for Seerr webhook notifications (disabled when no port is set)
+  webhook: parseWebhookConfig(),
+  // Outgoing calls to Seerr and OMDb
+  http: {
+    timeoutMs: parsePositiveNumber("HTTP_TIMEOUT_MS", 10_000),
+    // Extra attempts after a timeout, network failure or 5xx (never for POSTs)
+    retries: parseNonNegativeInteger("HTTP_RETRIES", 2),
+  },
+  // Response cache freshness per kind of data (see src/cache.ts)
+  cache: {
+    ttlSeconds: {
+      metadata: parsePositiveNumber("CACHE_METADATA_TTL_SECONDS", 24 * 60 * 60),
+      ratings: parsePositiveNumber("CACHE_RATINGS_TTL_SECONDS", 6 * 60 * 60),
+      status: parsePositiveNumber("CACHE_STATUS_TTL_SECONDS", 60),
+    },
+  },
+  // Daily LLM token budgets (input + output); 0 means unlimited
+  budgets: {
+    userDailyTokens: parseNonNegativeInteger("DAILY_USER_TOKEN_BUDGET", 0),
+    guildDailyTokens: parseNonNegativeInteger("DAILY_GUILD_TOKEN_BUDGET", 0),
   },
-  anthropic: {
-    apiKey: requireEnv("ANTHROPIC_API_KEY"),
-    model: process.env.CLAUDE_MODEL || "claude-haiku-4-5-20251001",
+  sessions: {
+    store: parseSessionStore(),
+    dbPath: process.env.SESSION_DB_PATH || `${dataDir}/sessions.db`,
+    ttlMinutes: parsePositiveNumber("SESSION_TTL_MINUTES", 30),
+    // Stored history beyond this is compacted (see history.ts)
+    maxHistoryTokens: parsePositiveNumber("SESSION_MAX_HISTORY_TOKENS", 6000),
+    cleanupIntervalMinutes: parsePositiveNumber("SESSION_CLEANUP_INTERVAL_MINUTES", 5),
   },
 } as const;
@@ -0,0 +1,33 @@
+import { processMediaRequest } from "./agent/index.js";
+import type { AgentResponse, ProgressListener, RequesterContext } from "./agent/index.js";
+import { sessionManager } from "./sessions.js";
+import { compactHistory } from "./history.js";
+import { config } from "./config.js";
+
+// Run a message through the agent as part of the requester's ongoing conversation
+export async function converse(
+  content: string,
+  requester: RequesterContext,
+  onProgress?: ProgressListener
+): Promise<AgentResponse> {
+  // Get existing conversation for this user
+  const existingMessages = sessionManager.get(requester.discordId);
+  const listCursor = sessionManager.getListCursor(requester.discordId);
+
+  const response = await processMediaRequest(
+    content,
+    requester,
+    existingMessages,
+    listCursor,
+    onProgress
+  );
+
+  // Store the conversation for future messages, keeping the old list if no new one was shown
+  sessionManager.set(
+    requester.discordId,
+    compactHistory(response.messages, config.sessions.maxHistoryTokens),
+    response.actions.list ?? listCursor
+  );
+
+  return response;
+}
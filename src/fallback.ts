@@ -0,0 +1,74 @@
+// Rule-based parsing of the simplest, unambiguous commands, so the bot stays
+// useful when the LLM is down, out of credit, or switched off on purpose.
+// Anything that needs judgement (which season, which of several matches)
+// is left to the model.
+
+export type FallbackCommand =
+  /** A tool call that needs nothing more from the user */
+  | { kind: "tool"; name: string; input: Record<string, unknown> }
+  /** "request Inception 2010": search, then request if exactly one title matches */
+  | { kind: "request"; query: string; mediaType?: "movie" | "tv" };
+
+export const FALLBACK_EXAMPLES = [
+  "request Inception 2010",
+  "request the show Severance",
+  "show pending requests",
+  "my requests",
+  "approve request #42",
+  "decline request #42",
+  "trending movies",
+  "upcoming shows",
+];
+
+const LIST_FILTERS = ["pending", "approved", "processing", "available", "failed"];
+
+function parseMediaType(word: string | undefined): "movie" | "tv" | undefined {
+  if (!word) return undefined;
+  return /^(movie|film)/.test(word) ? "movie" : "tv";
+}
+
+export function parseCommand(text: string): FallbackCommand | null {
+  const command = text
+    .trim()
+    .toLowerCase()
+    .replace(/^(please|can you|could you)\s+/, "")
+    .replace(/[\s?!.]*(please)?[\s?!.]*$/, "");
+
+  const decision = command.match(/^(approve|accept|decline|deny|reject)\s+(?:request\s+)?#?(\d+)$/);
+  if (decision) {
+    const name = /^(approve|accept)$/.test(decision[1]) ? "approve_request" : "decline_request";
+    return { kind: "tool", name, input: { requestId: Number(decision[2]) } };
+  }
+
+  if (/^(?:show|list)?\s*(?:me\s+)?my\s+requests$/.test(command)) {
+    return { kind: "tool", name: "my_requests", input: {} };
+  }
+
+  const list = command.match(/^(?:show|list|get)?\s*(?:me\s+)?(?:the\s+)?(?:(\w+)\s+)?requests$/);
+  if (list && (!list[1] || LIST_FILTERS.includes(list[1]))) {
+    return { kind: "tool", name: "list_requests", input: { filter: list[1] ?? "pending" } };
+  }
+
+  const discover = command.match(
+    /^(?:what'?s\s+|show\s+(?:me\s+)?)?(trending|upcoming)(?:\s+(movies|films|shows|tv shows|tv|series))?(?:\s+now)?$/
+  );
+  if (discover) {
+    const mediaType = parseMediaType(discover[2]);
+    return discover[1] === "trending"
+      ? { kind: "tool", name: "discover_trending", input: { mediaType: mediaType ?? "all" } }
+      : { kind: "tool", name: "discover_upcoming", input: { mediaType: mediaType ?? "movie" } };
+  }
+
+  // Use the original text for the title, keeping its capitalization
+  const request = command.match(
+    /^(?:request|add|get me)\s+(?:the\s+)?(?:(movie|film|tv show|show|series)\s+)?(.+)$/
+  );
+  if (request && !/\b(seasons?|episodes?|4k|in\s+\d{3,4}p)\b/.test(request[2])) {
+    const original = text.trim();
+    const start = original.toLowerCase().indexOf(request[2]);
+    const query = start >= 0 ? original.slice(start, start + request[2].length) : request[2];
+    return { kind: "request", query, mediaType: parseMediaType(request[1]) };
+  }
+
+  return null;
+}
@@ -0,0 +1,118 @@
+import { EmbedBuilder } from "discord.js";
+import type { ActionRowBuilder, MessageActionRowComponentBuilder } from "discord.js";
+
+interface ResponseSection {
+  text: string;
+  posterUrl: string | null;
+}
+
+export interface ResponseMessage {
+  content?: string;
+  embeds?: EmbedBuilder[];
+  components?: ActionRowBuilder<MessageActionRowComponentBuilder>[];
+}
+
+const POSTER_REGEX = /\[POSTER:(https:\/\/[^\]]+)\]/g;
+
+export function parseResponseSections(text: string): ResponseSection[] {
+  const posterMatches = [...text.matchAll(POSTER_REGEX)];
+
+  // No posters - return as single section
+  if (posterMatches.length === 0) {
+    return [{ text: text.trim(), posterUrl: null }];
+  }
+
+  // Single poster - attach to entire cleaned text
+  if (posterMatches.length === 1) {
+    const cleanText = text.replace(POSTER_REGEX, "").trim();
+    return [{ text: cleanText, posterUrl: posterMatches[0][1] }];
+  }
+
+  // Multiple posters - split into sections where each poster attaches to preceding text
+  const sections: ResponseSection[] = [];
+  let lastIndex = 0;
+
+  for (const match of posterMatches) {
+    const sectionText = text.slice(lastIndex, match.index!).trim();
+    if (sectionText) {
+      sections.push({ text: sectionText, posterUrl: match[1] });
+    }
+    lastIndex = match.index! + match[0].length;
+  }
+
+  const remaining = text.slice(lastIndex).trim();
+  if (remaining) {
+    sections.push({ text: remaining, posterUrl: null });
+  }
+
+  return sections.filter((s) => s.text.length > 50 || s.posterUrl);
+}
+
+const DISCORD_MAX_LENGTH = 2000;
+const MIN_CHUNK_LENGTH = 1000;
+
+export function splitTextIntoChunks(text: string, maxLength = DISCORD_MAX_LENGTH): string[] {
+  if (text.length <= maxLength) {
+    return [text];
+  }
+
+  const chunks: string[] = [];
+  let remaining = text;
+
+  while (remaining.length > 0) {
+    if (remaining.length <= maxLength) {
+      chunks.push(remaining);
+      break;
+    }
+
+    // Find a good break point: prefer newline, then space, then hard cut
+    let breakPoint = remaining.lastIndexOf("\n", maxLength);
+    if (breakPoint === -1 || breakPoint < MIN_CHUNK_LENGTH) {
+      breakPoint = remaining.lastIndexOf(" ", maxLength);
+    }
+    if (breakPoint === -1 || breakPoint < MIN_CHUNK_LENGTH) {
+      breakPoint = maxLength;
+    }
+
+    chunks.push(remaining.slice(0, breakPoint));
+    remaining = remaining.slice(breakPoint).trim();
+  }
+
+  return chunks;
+}
+
+// Reply text while it is still being written. Poster tags, including a
+// half-written one at the end, stay hidden until the final reply shows them.
+export function formatStreamingText(text: string): string[] {
+  const visible = text.replace(POSTER_REGEX, "").replace(/\[POSTER:[^\]]*$/, "").trim();
+  return splitTextIntoChunks(visible);
+}
+
+// Turn a response (agent reply or raw tool output) into Discord messages
+export function buildResponseMessages(response: string): ResponseMessage[] {
+  const sections = parseResponseSections(response);
+
+  // Check if any section has a poster
+  const hasPosters = sections.some((s) => s.posterUrl);
+
+  if (hasPosters) {
+    // Create embeds for each section (max 10 per message)
+    const embeds = sections.slice(0, 10).map((section) => {
+      const embed = new EmbedBuilder()
+        .setDescription(section.text.slice(0, 4096))
+        .setColor(0x2b2d31);
+
+      if (section.posterUrl) {
+        embed.setThumbnail(section.posterUrl);
+      }
+
+      return embed;
+    });
+
+    return [{ embeds }];
+  }
+
+  // No posters - send as plain text, chunked if needed
+  const fullText = sections.map((s) => s.text).join("\n\n---\n\n");
+  return splitTextIntoChunks(fullText).map((chunk) => ({ content: chunk }));
+}
@@ -0,0 +1,156 @@
+import type {
+  ChatMessage,
+  ContentBlock,
+  TextBlock,
+  ToolCallBlock,
+  ToolResultBlock,
+} from "./types/index.js";
+
+// Keeps stored conversations small. Raw tool results (search listings,
+// discovery pages, details) only matter for the exchange that fetched them, so
+// older ones are cut down to the lines that identify titles and requests.
+// When that is not enough, the oldest exchanges are dropped and replaced by a
+// short list of what they established. The latest exchange is always kept as
+// is, so a question the bot just asked is never lost.
+
+type Message = ChatMessage;
+type Exchange = Message[];
+
+const SUMMARY_HEADER = "Earlier in this conversation:";
+const TRIMMED_MARKER = "[Trimmed]";
+const MAX_TRIMMED_CHARS = 800;
+const MAX_FACTS = 20;
+// Rough token estimate; the tokenizer isn't available offline
+const CHARS_PER_TOKEN = 4;
+
+// Lines worth keeping from an old tool result: list headings, IDs and status
+const KEY_LINE =
+  /^\d+\. |TMDB:\d+|themoviedb\.org\/|Request ID|Request #|Seasons requested|Missing seasons|^Status:/;
+
+function estimateTokens(messages: Message[]): number {
+  return Math.ceil(JSON.stringify(messages).length / CHARS_PER_TOKEN);
+}
+
+function isToolResultTurn(message: Message): boolean {
+  return (
+    Array.isArray(message.content) &&
+    message.content.length > 0 &&
+    message.content.every((block) => block.type === "tool_result")
+  );
+}
+
+// An exchange starts with something the user typed and runs until the next one
+function splitExchanges(messages: Message[]): Exchange[] {
+  const exchanges: Exchange[] = [];
+  for (const message of messages) {
+    if (message.role === "user" && !isToolResultTurn(message)) {
+      exchanges.push([message]);
+    } else if (exchanges.length > 0) {
+      exchanges[exchanges.length - 1].push(message);
+    }
+  }
+  return exchanges;
+}
+
+function trimToolResult(content: string): string {
+  if (content.startsWith(TRIMMED_MARKER)) return content;
+  const [first, ...rest] = content.split("\n").filter((line) => line.trim());
+  const kept = [first, ...rest.filter((line) => KEY_LINE.test(line.trim()))].join("\n");
+  return `${TRIMMED_MARKER} ${kept.slice(0, MAX_TRIMMED_CHARS)}`;
+}
+
+function trimExchange(exchange: Exchange): Exchange {
+  return exchange.map((message) => {
+    if (!isToolResultTurn(message)) return message;
+    const blocks = message.content as ToolResultBlock[];
+    return {
+      ...message,
+      content: blocks.map((block) => ({ ...block, content: trimToolResult(block.content) })),
+    };
+  });
+}
+
+function toolCalls(exchange: Exchange): { use: ToolCallBlock; result: string }[] {
+  const results = new Map<string, string>();
+  for (const message of exchange) {
+    if (!isToolResultTurn(message)) continue;
+    for (const block of message.content as ToolResultBlock[]) {
+      results.set(block.tool_use_id, block.content);
+    }
+  }
+
+  return exchange
+    .filter((message) => message.role === "assistant" && Array.isArray(message.content))
+    .flatMap((message) => message.content as ContentBlock[])
+    .filter((block): block is ToolCallBlock => block.type === "tool_use")
+    .map((use) => ({ use, result: results.get(use.id) ?? "" }));
+}
+
+// What a dropped exchange established: titles looked at and requests made
+function extractFacts(exchange: Exchange): string[] {
+  const facts: string[] = [];
+  for (const { use, result } of toolCalls(exchange)) {
+    const { input } = use;
+    const firstLine = result.replace(TRIMMED_MARKER, "").trim().split("\n")[0];
+
+    if (use.name === "get_media_details" && !firstLine.startsWith("Error")) {
+      facts.push(`${firstLine} - ${input.mediaType} TMDB:${input.tmdbId}`);
+    } else if (use.name === "request_media" && /submitted successfully/.test(result)) {
+      const requestId = result.match(/Request ID: (\d+)/)?.[1];
+      const seasons = result.match(/Seasons requested: (.+)/)?.[1];
+      const details = [seasons && `seasons ${seasons}`, requestId && `request #${requestId}`]
+        .filter(Boolean)
+        .join(", ");
+      facts.push(`Requested ${input.mediaType} TMDB:${input.tmdbId}${details ? ` (${details})` : ""}`);
+    }
+  }
+  return facts;
+}
+
+function textOf(message: Message): string[] {
+  return typeof message.content === "string"
+    ? [message.content]
+    : message.content.flatMap((block) => (block.type === "text" ? [block.text] : []));
+}
+
+// Facts carried over from an earlier compaction
+function previousFacts(exchange: Exchange): string[] {
+  const summary = textOf(exchange[0]).find((text) => text.startsWith(SUMMARY_HEADER));
+  if (!summary) return [];
+  return summary
+    .split("\n")
+    .slice(1)
+    .map((line) => line.replace(/^- /, ""));
+}
+
+function withSummary(message: Message, facts: string[]): Message {
+  const summary: TextBlock = {
+    type: "text",
+    text: [SUMMARY_HEADER, ...facts.map((fact) => `- ${fact}`)].join("\n"),
+  };
+  const content: ContentBlock[] =
+    typeof message.content === "string"
+      ? [{ type: "text", text: message.content }]
+      : message.content;
+  return { ...message, content: [summary, ...content] };
+}
+
+export function compactHistory(messages: Message[], maxTokens: number): Message[] {
+  const exchanges = splitExchanges(messages);
+  if (exchanges.length === 0) return messages;
+
+  const latest = exchanges.length - 1;
+  let kept = exchanges.map((exchange, i) => (i === latest ? exchange : trimExchange(exchange)));
+
+  let facts: string[] = [];
+  while (kept.length > 1 && estimateTokens(kept.flat()) > maxTokens) {
+    const [dropped, ...rest] = kept;
+    facts = [...facts, ...previousFacts(dropped), ...extractFacts(dropped)];
+    kept = rest;
+  }
+  if (facts.length === 0) return kept.flat();
+
+  facts = [...new Set(facts)].slice(-MAX_FACTS);
+  const [first, ...restOfFirst] = kept[0];
+  return [withSummary(first, facts), ...restOfFirst, ...kept.slice(1).flat()];
+}
@@ -1,88 +1,57 @@
-import {
-  Client,
-  EmbedBuilder,
-  GatewayIntentBits,
-  Message,
-  Partials,
-  TextChannel,
-  DMChannel,
-} from "discord.js";
+import { Client, GatewayIntentBits, Message, Partials, PermissionFlagsBits } from "discord.js";
 import { config } from "./config.js";
-import { processMediaRequest } from "./agent/index.js";
 import { sessionManager } from "./sessions.js";
-
-interface ResponseSection {
-  text: string;
-  posterUrl: string | null;
-}
-
-const POSTER_REGEX = /\[POSTER:(https:\/\/[^\]]+)\]/g;
-
-function parseResponseSections(text: string): ResponseSection[] {
-  const posterMatches = [...text.matchAll(POSTER_REGEX)];
-
-  // No posters - return as single section
-  if (posterMatches.length === 0) {
-    return [{ text: text.trim(), posterUrl: null }];
-  }
-
-  // Single poster - attach to entire cleaned text
-  if (posterMatches.length === 1) {
-    const cleanText = text.replace(POSTER_REGEX, "").trim();
-    return [{ text: cleanText, posterUrl: posterMatches[0][1] }];
-  }
-
-  // Multiple posters - split into sections where each poster attaches to preceding text
-  const sections: ResponseSection[] = [];
-  let lastIndex = 0;
-
-  for (const match of posterMatches) {
-    const sectionText = text.slice(lastIndex, match.index!).trim();
-    if (sectionText) {
-      sections.push({ text: sectionText, posterUrl: match[1] });
-    }
-    lastIndex = match.index! + match[0].length;
-  }
-
-  const remaining = text.slice(lastIndex).trim();
-  if (remaining) {
-    sections.push({ text: remaining, posterUrl: null });
+import { getSeerrUserName, userLinks } from "./users.js";
+import { formatErrorMessage } from "./utils.js";
+import { buildResponseMessages } from "./formatting.js";
+import { buildRequesterContext } from "./requester.js";
+import {
+  handleAutocomplete,
+  handleCommandInteraction,
+  registerCommands,
+} from "./commands.js";
+import { attachComponents, handleComponentInteraction } from "./components.js";
+import { converse } from "./conversation.js";
+import { ProgressReply } from "./progress.js";
+import { startWebhookServer } from "./webhooks.js";
+import { approvalQueue, handleQueueInteraction } from "./queue.js";
+import { settings } from "./settings.js";
+
+const LINK_REGEX = /^link\s+<@!?(\d+)>\s+(.+)$/i;
+const UNLINK_REGEX = /^unlink\s+<@!?(\d+)>$/i;
+
+// Admin commands for manually linking Discord users to Seerr users.
+// Returns true if the message was a link command and has been answered.
+async function handleLinkCommand(message: Message, content: string): Promise<boolean> {
+  const linkMatch = content.match(LINK_REGEX);
+  const unlinkMatch = content.match(UNLINK_REGEX);
+  if (!linkMatch && !unlinkMatch) return false;
+
+  if (!message.member?.permissions.has(PermissionFlagsBits.ManageGuild)) {
+    await message.reply("Only server admins can link users.");
+    return true;
   }
 
-  return sections.filter((s) => s.text.length > 50 || s.posterUrl);
-}
-
-const DISCORD_MAX_LENGTH = 2000;
-const MIN_CHUNK_LENGTH = 1000;
-
-function splitTextIntoChunks(text: string, maxLength = DISCORD_MAX_LENGTH): string[] {
-  if (text.length <= maxLength) {
-    return [text];
+  if (unlinkMatch) {
+    const removed = userLinks.unlink(unlinkMatch[1]);
+    await message.reply(
+      removed
+        ? `Removed the manual link for <@${unlinkMatch[1]}>.`
+        : `<@${unlinkMatch[1]}> has no manual link.`
+    );
+    return true;
   }
 
-  const chunks: string[] = [];
-  let remaining = text;
-
-  while (remaining.length > 0) {
-    if (remaining.length <= maxLength) {
-      chunks.push(remaining);
-      break;
-    }
-
-    // Find a good break point: prefer newline, then space, then hard cut
-    let breakPoint = remaining.lastIndexOf("\n", maxLength);
-    if (breakPoint === -1 || breakPoint < MIN_CHUNK_LENGTH) {
-      breakPoint = remaining.lastIndexOf(" ", maxLength);
-    }
-    if (breakPoint === -1 || breakPoint < MIN_CHUNK_LENGTH) {
-      breakPoint = maxLength;
-    }
-
-    chunks.push(remaining.slice(0, breakPoint));
-    remaining = remaining.slice(breakPoint).trim();
+  const [, discordId, identifier] = linkMatch!;
+  try {
+    const user = await userLinks.link(discordId, identifier);
+    await message.reply(
+      `Linked <@${discordId}> to Seerr user ${getSeerrUserName(user)} (ID ${user.id}).`
+    );
+  } catch (error) {
+    await message.reply(`Could not link user: ${formatErrorMessage(error)}`);
   }
-
-  return chunks;
+  return true;
 }
 
 const client = new Client({
@@ -95,10 +64,16 @@ const client = new Client({
   partials: [Partials.Channel],
 });
 
-client.once("ready", () => {
+client.once("ready", async () => {
   console.log(`Seerr Bot is online as ${client.user?.tag}`);
+  await registerCommands(client).catch((error) => {
+    console.error("Failed to register slash commands:", error);
+  });
+  await approvalQueue.start(client).catch((error) => {
+    console.error("Failed to reconcile approval queue:", error);
+  });
   console.log(
-    `Invite URL: https://discord.com/api/oauth2/authorize?client_id=${client.user?.id}&permissions=274877958144&scope=bot`
+    `Invite URL: https://discord.com/api/oauth2/authorize?client_id=${client.user?.id}&permissions=274877958144&scope=bot%20applications.commands`
   );
 });
 
@@ -111,6 +86,7 @@ client.on("messageCreate", async (message: Message) => {
   const isDM = !message.guild;
 
   if (!isMentioned && !isDM) return;
+  if (!settings.isAllowed({ guildId: message.guild?.id, channelId: message.channelId })) return;
 
   // Extract the request text (remove mention if present)
   let content = message.content;
@@ -133,86 +109,70 @@ client.on("messageCreate", async (message: Message) => {
     return;
   }
 
-  // Get a text-capable channel
-  const channel = message.channel;
-  const isTextChannel =
-    channel instanceof TextChannel || channel instanceof DMChannel;
+  if (await handleLinkCommand(message, content)) return;
 
-  try {
-    // Keep typing indicator active during processing
-    if (isTextChannel) await channel.sendTyping();
-    const typingInterval = setInterval(() => {
-      if (isTextChannel) channel.sendTyping().catch(() => {});
-    }, 5000);
+  // Posted straight away and edited with progress until the reply is ready
+  const progress = new ProgressReply(message);
 
+  try {
     console.log(`Processing request from ${message.author.tag}: ${content}`);
 
     // Check for session reset commands
     const resetCommands = ["new conversation", "start over", "reset", "forget"];
     if (resetCommands.some((cmd) => content.toLowerCase().includes(cmd))) {
       sessionManager.clear(message.author.id);
-      clearInterval(typingInterval);
       await message.reply(
         "Started a new conversation! What would you like to watch?"
       );
       return;
     }
 
-    // Get existing conversation for this user
-    const existingMessages = sessionManager.get(message.author.id);
+    await progress.start();
+
+    // Requests are filed as the linked Seerr user when there is one
+    const requester = await buildRequesterContext({
+      user: message.author,
+      guildId: message.guild?.id,
+      channelId: message.channelId,
+      member: message.member,
+    });
 
     // Process with Claude
-    const { result: response, messages: newMessages } = await processMediaRequest(
-      content,
-      existingMessages
+    const { result: response, actions } = await converse(content, requester, (update) =>
+      progress.update(update)
     );
 
-    // Store the conversation for future messages
-    sessionManager.set(message.author.id, newMessages);
-
-    // Clear typing interval
-    clearInterval(typingInterval);
-
-    // Parse response into sections
-    const sections = parseResponseSections(response);
-
-    // Check if any section has a poster
-    const hasPosters = sections.some(s => s.posterUrl);
-
-    if (hasPosters) {
-      // Create embeds for each section (max 10 per message)
-      const embeds = sections.slice(0, 10).map(section => {
-        const embed = new EmbedBuilder()
-          .setDescription(section.text.slice(0, 4096))
-          .setColor(0x2b2d31);
-
-        if (section.posterUrl) {
-          embed.setThumbnail(section.posterUrl);
-        }
-
-        return embed;
-      });
-
-      await message.reply({ embeds });
-    } else {
-      // No posters - send as plain text, chunked if needed
-      const fullText = sections.map((s) => s.text).join("\n\n---\n\n");
-      const chunks = splitTextIntoChunks(fullText);
-
-      await message.reply(chunks[0]);
-      for (let i = 1; i < chunks.length; i++) {
-        if (isTextChannel) {
-          await channel.send(chunks[i]);
-        }
-      }
-    }
+    await progress.finish(attachComponents(buildResponseMessages(response), actions));
 
     console.log(`Responded to ${message.author.tag}`);
   } catch (error) {
     console.error("Error processing request:", error);
-    await message.reply(
-      "Sorry, I encountered an error processing your request. Please try again later."
-    );
+    await progress.finish([
+      { content: "Sorry, I encountered an error processing your request. Please try again later." },
+    ]);
+  }
+});
+
+client.on("interactionCreate", async (interaction) => {
+  const allowed = settings.isAllowed({
+    guildId: interaction.guildId ?? undefined,
+    channelId: interaction.channelId ?? undefined,
+  });
+
+  if (interaction.isAutocomplete() && !allowed) {
+    await interaction.respond([]).catch(() => {});
+  } else if (interaction.isChatInputCommand() && !allowed) {
+    await interaction
+      .reply({ content: "I'm not enabled in this channel.", ephemeral: true })
+      .catch(() => {});
+  } else if (interaction.isAutocomplete()) {
+    await handleAutocomplete(interaction);
+  } else if (interaction.isChatInputCommand()) {
+    await handleCommandInteraction(interaction);
+  } else if (interaction.isButton() && interaction.customId.startsWith("queue-")) {
+    await handleQueueInteraction(interaction);
+  } else if (interaction.isButton() || interaction.isStringSelectMenu()) {
+    await handleComponentInteraction(interaction);
   }
 });
 
@@ -226,4 +186,6 @@ process.on("unhandledRejection", (error) => {
 });
 
 // Login
+settings.watch();
 client.login(config.discord.token);
+startWebhookServer(client);
@@ -0,0 +1,131 @@
+import {
+  FEATURE_DESCRIPTIONS,
+  settings,
+  type FeatureToggles,
+  type ScopeSettings,
+} from "./settings.js";
+import { Permission } from "./types/index.js";
+import type { MediaRequestItem, RequestOverrides, SeerrUser } from "./types/index.js";
+import { requestTracker } from "./tracking.js";
+import { hasOverrides } from "./profiles.js";
+import type { RequesterContext } from "./agent/index.js";
+
+type ToolAccess = "manage" | "request";
+
+// Tools not listed here are read-only and open to everyone
+const TOOL_ACCESS: Record<string, ToolAccess> = {
+  request_media: "request",
+  approve_request: "manage",
+  decline_request: "manage",
+};
+
+// Tools that can be turned off per server or channel in the config file
+const TOOL_FEATURES: Record<string, keyof FeatureToggles> = {
+  request_media: "requests",
+  cancel_request: "requests",
+  edit_request_seasons: "requests",
+  retry_request: "requests",
+  approve_request: "approvals",
+  decline_request: "approvals",
+  discover_trending: "discovery",
+  discover_upcoming: "discovery",
+  discover_movies: "discovery",
+  discover_tv: "discovery",
+  get_similar: "discovery",
+};
+
+export function isToolEnabled(name: string, scope: ScopeSettings): boolean {
+  const feature = TOOL_FEATURES[name];
+  return !feature || scope.features[feature];
+}
+
+// Returns a tool result explaining that the feature is off here, or null
+export function checkToolEnabled(name: string, scope: ScopeSettings): string | null {
+  return isToolEnabled(name, scope)
+    ? null
+    : `Unavailable: ${FEATURE_DESCRIPTIONS[TOOL_FEATURES[name]]} is turned off in this server or channel. Tell the user; do not retry.`;
+}
+
+export function hasPermission(user: SeerrUser, ...permissions: Permission[]): boolean {
+  if (user.permissions & Permission.ADMIN) return true;
+  return permissions.some((permission) => (user.permissions & permission) === permission);
+}
+
+export function canManageRequests(requester: RequesterContext): boolean {
+  const { managerRoleIds } = settings.resolve(requester);
+  const hasManagerRole = requester.roleIds.some((id) => managerRoleIds.includes(id));
+  if (hasManagerRole) return true;
+
+  return requester.seerrUser
+    ? hasPermission(requester.seerrUser, Permission.MANAGE_REQUESTS)
+    : false;
+}
+
+function canRequest(requester: RequesterContext, mediaType: "movie" | "tv"): boolean {
+  // Unlinked users keep filing requests under the bot's account
+  if (!requester.seerrUser || canManageRequests(requester)) return true;
+
+  const typePermission =
+    mediaType === "movie" ? Permission.REQUEST_MOVIE : Permission.REQUEST_TV;
+  return hasPermission(requester.seerrUser, Permission.REQUEST, typePermission);
+}
+
+function canRequest4k(requester: RequesterContext, mediaType: "movie" | "tv"): boolean {
+  if (canManageRequests(requester)) return true;
+  // 4K is opt-in per user, so unlinked users can't ask for it
+  if (!requester.seerrUser) return false;
+
+  const typePermission =
+    mediaType === "movie" ? Permission.REQUEST_4K_MOVIE : Permission.REQUEST_4K_TV;
+  return hasPermission(requester.seerrUser, Permission.REQUEST_4K, typePermission);
+}
+
+function canRequestAdvanced(requester: RequesterContext): boolean {
+  if (canManageRequests(requester)) return true;
+  return requester.seerrUser
+    ? hasPermission(requester.seerrUser, Permission.REQUEST_ADVANCED)
+    : false;
+}
+
+// Regular users may only touch their own requests; managers may touch any.
+// Unlinked users' requests are filed under the bot, so fall back to the
+// record kept when the bot submitted them.
+export function canModifyRequest(
+  request: MediaRequestItem,
+  requester: RequesterContext
+): boolean {
+  if (canManageRequests(requester)) return true;
+  if (requester.seerrUser && request.requestedBy.id === requester.seerrUser.id) return true;
+  return requestTracker.get(request.id)?.discordId === requester.discordId;
+}
+
+// Returns a tool result explaining the denial, or null if the call may run
+export function checkToolPermission(
+  name: string,
+  input: Record<string, unknown>,
+  requester: RequesterContext
+): string | null {
+  switch (TOOL_ACCESS[name]) {
+    case "manage":
+      return canManageRequests(requester)
+        ? null
+        : `Permission denied: ${requester.discordTag} is not allowed to approve or decline requests. Only admins can manage requests.`;
+    case "request": {
+      const mediaType = input.mediaType as "movie" | "tv";
+      const label = mediaType === "movie" ? "movies" : "TV shows";
+      if (!canRequest(requester, mediaType)) {
+        return `Permission denied: ${requester.discordTag}'s Seerr account is not allowed to request ${label}.`;
+      }
+      const overrides = input as RequestOverrides;
+      if (hasOverrides(overrides) && !canRequestAdvanced(requester)) {
+        return `Permission denied: ${requester.discordTag} is not allowed to choose servers, profiles, folders or tags. Request without them instead.`;
+      }
+      if (input.is4k && !canRequest4k(requester, mediaType)) {
+        return `Permission denied: ${requester.discordTag} is not allowed to request ${label} in 4K. Offer the regular version instead.`;
+      }
+      return null;
+    }
+    default:
+      return null;
+  }
+}
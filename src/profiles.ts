@@ -0,0 +1,118 @@
+import { seerr } from "./services/seerr.js";
+import type {
+  RequestOptions,
+  RequestOverrides,
+  ServiceDetails,
+  ServiceServer,
+} from "./types/index.js";
+
+type ServiceOptions = Pick<
+  RequestOptions,
+  "serverId" | "profileId" | "rootFolder" | "languageProfileId" | "tags"
+>;
+
+// Exact (case-insensitive) match first, then substring, so "anime" finds "/media/anime"
+function matchByName<T>(
+  items: T[],
+  query: string,
+  getName: (item: T) => string,
+  label: string
+): T {
+  const needle = query.trim().toLowerCase();
+  const match =
+    items.find((item) => getName(item).toLowerCase() === needle) ??
+    items.find((item) => getName(item).toLowerCase().includes(needle));
+
+  if (!match) {
+    const available = items.map(getName).join(", ") || "none";
+    throw new Error(`No ${label} matches "${query}". Available: ${available}`);
+  }
+  return match;
+}
+
+async function getServers(mediaType: "movie" | "tv", is4k: boolean): Promise<ServiceServer[]> {
+  const servers = (await seerr.listServers(mediaType)).filter((s) => s.is4k === is4k);
+  if (servers.length === 0) {
+    const service = mediaType === "movie" ? "Radarr" : "Sonarr";
+    throw new Error(`No ${is4k ? "4K " : ""}${service} server is configured in Seerr.`);
+  }
+  return servers;
+}
+
+// Overrides from the user win over per-genre defaults from settings
+export function mergeGenreDefaults(
+  overrides: RequestOverrides,
+  genres: string[],
+  genreDefaultsByGenre: Record<string, RequestOverrides>
+): RequestOverrides {
+  const genreDefaults = genres
+    .map((genre) => genreDefaultsByGenre[genre.toLowerCase()])
+    .find(Boolean);
+  return { ...genreDefaults, ...overrides };
+}
+
+export function hasOverrides(overrides: RequestOverrides): boolean {
+  return Boolean(
+    overrides.server || overrides.profile || overrides.rootFolder || overrides.tags?.length
+  );
+}
+
+// Turn names like "1080p" or "anime" into the IDs and paths Seerr expects
+export async function resolveRequestOptions(
+  mediaType: "movie" | "tv",
+  is4k: boolean,
+  overrides: RequestOverrides
+): Promise<ServiceOptions> {
+  if (!hasOverrides(overrides)) return {};
+
+  const servers = await getServers(mediaType, is4k);
+  const server = overrides.server
+    ? matchByName(servers, overrides.server, (s) => s.name, "server")
+    : servers.find((s) => s.isDefault) ?? servers[0];
+  const details = await seerr.getServiceDetails(mediaType, server.id);
+
+  return {
+    serverId: server.id,
+    profileId: overrides.profile
+      ? matchByName(details.profiles, overrides.profile, (p) => p.name, "quality profile").id
+      : undefined,
+    rootFolder: overrides.rootFolder
+      ? matchByName(details.rootFolders, overrides.rootFolder, (f) => f.path, "root folder").path
+      : undefined,
+    // Sonarr v3 servers need one; v4 has no language profiles
+    languageProfileId: details.languageProfiles?.length
+      ? server.activeLanguageProfileId ?? details.languageProfiles[0].id
+      : undefined,
+    tags: overrides.tags?.map((tag) => matchByName(details.tags, tag, (t) => t.label, "tag").id),
+  };
+}
+
+function describeServer(details: ServiceDetails): string {
+  const { server } = details;
+  const profile = (id: number) => details.profiles.find((p) => p.id === id)?.name ?? "none";
+  const lines = [
+    `${server.name}${server.isDefault ? " (default)" : ""}`,
+    `  Profiles: ${details.profiles.map((p) => p.name).join(", ") || "none"}`,
+    `  Root folders: ${details.rootFolders.map((f) => f.path).join(", ") || "none"}`,
+    `  Tags: ${details.tags.map((t) => t.label).join(", ") || "none"}`,
+    `  Defaults: profile ${profile(server.activeProfileId)}, folder ${server.activeDirectory}`,
+  ];
+  if (server.activeAnimeDirectory) {
+    lines.push(
+      `  Anime defaults: profile ${profile(server.activeAnimeProfileId ?? server.activeProfileId)}, folder ${server.activeAnimeDirectory}`
+    );
+  }
+  return lines.join("\n");
+}
+
+export async function describeServiceOptions(
+  mediaType: "movie" | "tv",
+  is4k: boolean
+): Promise<string> {
+  const servers = await getServers(mediaType, is4k);
+  const details = await Promise.all(
+    servers.map((server) => seerr.getServiceDetails(mediaType, server.id))
+  );
+  const service = mediaType === "movie" ? "Radarr" : "Sonarr";
+  return `${is4k ? "4K " : ""}${service} servers:\n\n${details.map(describeServer).join("\n\n")}`;
+}
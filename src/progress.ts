@@ -0,0 +1,103 @@
+import type { Message, MessageCreateOptions } from "discord.js";
+import type { AgentProgress } from "./agent/index.js";
+import { formatStreamingText, type ResponseMessage } from "./formatting.js";
+
+const PLACEHOLDER = "Thinking...";
+// Discord allows about five edits every five seconds; leave room for overflow messages
+const EDIT_INTERVAL_MS = 1500;
+
+// A reply posted as soon as a message comes in and edited while the agent
+// works on it: what the tools are doing, then the answer as it is written.
+// Updates in between edits are coalesced, so only the latest state is sent.
+export class ProgressReply {
+  private messages: Message[] = [];
+  // Content each message was last edited to, to skip edits that change nothing
+  private shown: string[] = [];
+  private text = "";
+  private status = "";
+  private lastEdit = 0;
+  private timer: NodeJS.Timeout | null = null;
+  private rendering: Promise<void> = Promise.resolve();
+  private finished = false;
+
+  constructor(private source: Message) {}
+
+  async start(): Promise<void> {
+    await this.show([{ content: PLACEHOLDER }]);
+    this.lastEdit = Date.now();
+  }
+
+  update(progress: AgentProgress): void {
+    if (progress.type === "status") {
+      this.status = progress.text;
+    } else {
+      // New text means the last round of tools has finished
+      this.text = progress.text;
+      this.status = "";
+    }
+    this.schedule();
+  }
+
+  // Replace the progress with the final reply
+  async finish(replies: ResponseMessage[]): Promise<void> {
+    this.finished = true;
+    if (this.timer) clearTimeout(this.timer);
+    await this.rendering;
+    this.shown = [];
+    await this.show(replies);
+  }
+
+  private schedule(): void {
+    if (this.timer || this.finished) return;
+    const wait = Math.max(0, this.lastEdit + EDIT_INTERVAL_MS - Date.now());
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.lastEdit = Date.now();
+      this.rendering = this.rendering
+        .then(() => this.render())
+        .catch((error) => console.error("Failed to update progress reply:", error));
+    }, wait);
+  }
+
+  private async render(): Promise<void> {
+    if (this.finished) return;
+    const status = this.status
+      .split("\n")
+      .filter(Boolean)
+      .map((line) => `*${line}*`)
+      .join("\n");
+    const chunks = formatStreamingText([this.text, status].filter(Boolean).join("\n\n"));
+    await this.show(chunks.map((chunk) => ({ content: chunk || PLACEHOLDER })));
+  }
+
+  // Edit the posted messages to match, posting or deleting to make up the difference
+  private async show(replies: ResponseMessage[]): Promise<void> {
+    for (const [i, reply] of replies.entries()) {
+      const key = JSON.stringify(reply);
+      if (this.shown[i] === key) continue;
+      this.shown[i] = key;
+
+      const message = this.messages[i];
+      if (message) {
+        await message.edit({
+          content: reply.content ?? null,
+          embeds: reply.embeds ?? [],
+          components: reply.components ?? [],
+        });
+      } else {
+        this.messages.push(await this.send(reply));
+      }
+    }
+
+    for (const extra of this.messages.splice(replies.length)) {
+      await extra.delete().catch(() => {});
+    }
+    this.shown.length = replies.length;
+  }
+
+  private send(reply: MessageCreateOptions): Promise<Message> {
+    const channel = this.source.channel;
+    if (this.messages.length === 0 || !channel.isSendable()) return this.source.reply(reply);
+    return channel.send(reply);
+  }
+}
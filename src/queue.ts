@@ -0,0 +1,283 @@
+import {
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonStyle,
+  EmbedBuilder,
+  type ButtonInteraction,
+  type Client,
+  type MessageActionRowComponentBuilder,
+  type SendableChannels,
+} from "discord.js";
+import { config } from "./config.js";
+import { TMDB_IMAGE_BASE } from "./constants.js";
+import { seerr } from "./services/seerr.js";
+import { SeerrApiError } from "./services/http.js";
+import { JsonFileStore } from "./storage.js";
+import { checkToolPermission, isToolEnabled } from "./permissions.js";
+import { settings } from "./settings.js";
+import { buildRequesterContext } from "./requester.js";
+import { RequestStatus } from "./types/index.js";
+import type { MediaRequestItem } from "./types/index.js";
+import { formatErrorMessage, getRequesterName, getRequestStatusText } from "./utils.js";
+
+interface QueueEntry {
+  messageId: string;
+  channelId: string;
+}
+
+type Outcome = "approved" | "declined" | "cancelled";
+
+const PENDING_PAGE_SIZE = 100;
+
+const PENDING_COLOR = 0xfee75c;
+const OUTCOME_COLORS: Record<Outcome, number> = {
+  approved: 0x57f287,
+  declined: 0xed4245,
+  cancelled: 0x80848e,
+};
+const OUTCOME_LABELS: Record<Outcome, string> = {
+  approved: "Approved",
+  declined: "Declined",
+  cancelled: "Cancelled",
+};
+
+// Posts pending requests to the moderation channel as embeds with
+// Approve/Decline buttons, and keeps those embeds in sync with Seerr
+class ApprovalQueue {
+  private entries = new JsonFileStore<Record<string, QueueEntry>>("approval-queue.json", {});
+  private client: Client | null = null;
+  // Requests being posted right now, so the bot and the webhook don't both post
+  private posting = new Set<number>();
+  // Who is approving or declining a request through the bot right now
+  private actors = new Map<number, string>();
+
+  get enabled(): boolean {
+    return Boolean(config.discord.approvalChannelId);
+  }
+
+  async start(client: Client): Promise<void> {
+    if (!this.enabled) return;
+    this.client = client;
+    await this.reconcile();
+  }
+
+  // Post a pending request, unless it is already in the queue
+  async enqueue(requestId: number): Promise<void> {
+    if (!this.client || this.entries.get()[requestId] || this.posting.has(requestId)) return;
+
+    this.posting.add(requestId);
+    try {
+      const request = await seerr.getRequest(requestId);
+      if (request.status === RequestStatus.PENDING) {
+        await this.post(request);
+      }
+    } finally {
+      this.posting.delete(requestId);
+    }
+  }
+
+  // Approve or decline a request through the bot. The actor is noted before Seerr is
+  // called, since Seerr's webhook for the change can arrive before the call returns.
+  async decide<T>(
+    requestId: number,
+    outcome: "approved" | "declined",
+    actor: string,
+    change: () => Promise<T>
+  ): Promise<T> {
+    this.actors.set(requestId, actor);
+    try {
+      const result = await change();
+      await this.resolve(requestId, outcome, actor);
+      return result;
+    } finally {
+      this.actors.delete(requestId);
+    }
+  }
+
+  // Mark a queued request as handled and remove its buttons
+  async resolve(requestId: number, outcome: Outcome, actor: string): Promise<void> {
+    const entry = this.entries.get()[requestId];
+    if (!this.client || !entry) return;
+    actor = this.actors.get(requestId) ?? actor;
+
+    try {
+      const channel = await this.client.channels.fetch(entry.channelId);
+      if (channel?.isTextBased()) {
+        const message = await channel.messages.fetch(entry.messageId);
+        const actedAt = Math.floor(Date.now() / 1000);
+        const embed = EmbedBuilder.from(message.embeds[0])
+          .setColor(OUTCOME_COLORS[outcome])
+          .addFields({
+            name: OUTCOME_LABELS[outcome],
+            value: `by ${actor} <t:${actedAt}:R>`,
+          });
+        await message.edit({ embeds: [embed], components: [] });
+      }
+    } catch (error) {
+      console.error(`Failed to update queue message for request #${requestId}:`, error);
+    }
+
+    this.entries.update((entries) => {
+      delete entries[requestId];
+    });
+  }
+
+  // Re-render a queued request after it was edited (e.g. different seasons)
+  async refresh(requestId: number): Promise<void> {
+    const entry = this.entries.get()[requestId];
+    if (!this.client || !entry) return;
+
+    try {
+      const request = await seerr.getRequest(requestId);
+      const channel = await this.client.channels.fetch(entry.channelId);
+      if (channel?.isTextBased()) {
+        const message = await channel.messages.fetch(entry.messageId);
+        await message.edit({ embeds: [await this.buildEmbed(request)] });
+      }
+    } catch (error) {
+      console.error(`Failed to refresh queue message for request #${requestId}:`, error);
+    }
+  }
+
+  // Bring the channel in line with Seerr: post missing pending requests and
+  // close out queued ones that were handled while the bot was offline
+  async reconcile(): Promise<void> {
+    const pending: MediaRequestItem[] = [];
+    for (let skip = 0; ; skip += PENDING_PAGE_SIZE) {
+      const page = await seerr.listRequests({ filter: "pending", take: PENDING_PAGE_SIZE, skip });
+      pending.push(...page.results);
+      if (page.results.length === 0 || skip + PENDING_PAGE_SIZE >= page.pageInfo.results) break;
+    }
+    const pendingIds = new Set(pending.map((r) => r.id));
+
+    for (const request of pending) {
+      if (!this.entries.get()[request.id]) {
+        await this.post(request);
+      }
+    }
+
+    for (const requestId of Object.keys(this.entries.get()).map(Number)) {
+      if (pendingIds.has(requestId)) continue;
+      try {
+        const request = await seerr.getRequest(requestId);
+        if (request.status === RequestStatus.PENDING) continue;
+        const outcome = request.status === RequestStatus.DECLINED ? "declined" : "approved";
+        const actor = request.modifiedBy ? getRequesterName(request.modifiedBy) : "Seerr";
+        await this.resolve(requestId, outcome, actor);
+      } catch (error) {
+        if (error instanceof SeerrApiError && error.status === 404) {
+          await this.resolve(requestId, "cancelled", "Seerr (request deleted)");
+        } else {
+          // Leave it queued; it is checked again on the next startup
+          console.error(`Could not check queued request #${requestId}:`, error);
+        }
+      }
+    }
+
+    console.log(`Approval queue reconciled: ${pendingIds.size} pending`);
+  }
+
+  private async post(request: MediaRequestItem): Promise<void> {
+    const channel = await this.getChannel();
+    const message = await channel.send({
+      embeds: [await this.buildEmbed(request)],
+      components: [this.buildButtons(request.id)],
+    });
+
+    this.entries.update((entries) => {
+      entries[request.id] = { messageId: message.id, channelId: message.channelId };
+    });
+  }
+
+  private async getChannel(): Promise<SendableChannels> {
+    const channel = await this.client!.channels.fetch(config.discord.approvalChannelId!);
+    if (!channel?.isSendable()) {
+      throw new Error(`Approval channel ${config.discord.approvalChannelId} is not a text channel`);
+    }
+    return channel;
+  }
+
+  private async buildEmbed(request: MediaRequestItem): Promise<EmbedBuilder> {
+    const { tmdbId } = request.media;
+    const embed = new EmbedBuilder()
+      .setColor(PENDING_COLOR)
+      .setURL(`${config.seerr.publicUrl}/${request.type}/${tmdbId}`)
+      .addFields(
+        { name: "Requested by", value: getRequesterName(request.requestedBy), inline: true },
+        { name: "Status", value: getRequestStatusText(request.status), inline: true }
+      )
+      .setFooter({ text: `Request #${request.id}` })
+      .setTimestamp(new Date(request.createdAt));
+
+    try {
+      const details =
+        request.type === "movie"
+          ? await seerr.getMovieDetails(tmdbId, "metadata")
+          : await seerr.getTvDetails(tmdbId, "metadata");
+      const title = "title" in details ? details.title : details.name;
+      const date = "releaseDate" in details ? details.releaseDate : details.firstAirDate;
+      embed.setTitle(`${title}${date ? ` (${date.slice(0, 4)})` : ""}${request.is4k ? " [4K]" : ""}`);
+      if (details.posterPath) {
+        embed.setThumbnail(`${TMDB_IMAGE_BASE}${details.posterPath}`);
+      }
+    } catch {
+      embed.setTitle(`TMDB ${tmdbId}`);
+    }
+
+    if (request.type === "tv" && request.seasons?.length) {
+      const seasons = request.seasons.map((s) => s.seasonNumber).sort((a, b) => a - b);
+      embed.addFields({ name: "Seasons", value: seasons.join(", "), inline: true });
+    }
+    return embed;
+  }
+
+  private buildButtons(requestId: number): ActionRowBuilder<MessageActionRowComponentBuilder> {
+    return new ActionRowBuilder<MessageActionRowComponentBuilder>().addComponents(
+      new ButtonBuilder()
+        .setCustomId(`queue-approve:${requestId}`)
+        .setLabel("Approve")
+        .setStyle(ButtonStyle.Success),
+      new ButtonBuilder()
+        .setCustomId(`queue-decline:${requestId}`)
+        .setLabel("Decline")
+        .setStyle(ButtonStyle.Danger)
+    );
+  }
+}
+
+export const approvalQueue = new ApprovalQueue();
+
+export async function handleQueueInteraction(interaction: ButtonInteraction): Promise<void> {
+  const [action, id] = interaction.customId.split(":");
+  const requestId = Number(id);
+  const outcome: Outcome = action === "queue-approve" ? "approved" : "declined";
+
+  const requester = await buildRequesterContext({
+    user: interaction.user,
+    guildId: interaction.guildId,
+    channelId: interaction.channelId,
+    member: interaction.member,
+  });
+  // Same rules as approving in chat, including approvals being turned off here
+  const tool = outcome === "approved" ? "approve_request" : "decline_request";
+  const denial = isToolEnabled(tool, settings.resolve(requester))
+    ? checkToolPermission(tool, { requestId }, requester)
+    : "Approving and declining requests is turned off in this server or channel.";
+  if (denial) {
+    await interaction.reply({ content: denial, ephemeral: true });
+    return;
+  }
+
+  try {
+    await interaction.deferUpdate();
+    await approvalQueue.decide(requestId, outcome, `<@${interaction.user.id}>`, () =>
+      outcome === "approved" ? seerr.approveRequest(requestId) : seerr.declineRequest(requestId)
+    );
+    console.log(`${interaction.user.tag} ${outcome} request #${requestId} from the queue`);
+  } catch (error) {
+    console.error(`Queue ${outcome} failed for request #${requestId}:`, error);
+    await interaction
+      .followUp({ content: `Could not update request #${requestId}: ${formatErrorMessage(error)}`, ephemeral: true })
+      .catch(() => {});
+  }
+}
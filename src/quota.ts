@@ -0,0 +1,49 @@
+import { seerr } from "./services/seerr.js";
+import type { QuotaStatus, UserQuota } from "./types/index.js";
+import type { RequesterContext } from "./agent/index.js";
+
+// Quotas belong to Seerr users. Unlinked requesters file under the bot's
+// account, so there is nothing meaningful to check for them.
+export async function getQuota(requester: RequesterContext): Promise<UserQuota | undefined> {
+  if (!requester.seerrUser) return undefined;
+  try {
+    return await seerr.getUserQuota(requester.seerrUser.id);
+  } catch (error) {
+    // Let Seerr have the final say rather than blocking on a failed lookup
+    console.error(`Failed to fetch quota for Seerr user ${requester.seerrUser.id}:`, error);
+    return undefined;
+  }
+}
+
+function isLimited(status: QuotaStatus): boolean {
+  return Boolean(status.limit);
+}
+
+export function formatQuotaStatus(status: QuotaStatus, unit: string): string {
+  if (!isLimited(status)) return "unlimited";
+  const window = status.days === 1 ? "day" : `${status.days} days`;
+  return `${status.remaining ?? 0} of ${status.limit} ${unit} left (limit resets on a rolling ${window} window)`;
+}
+
+// Returns a message explaining why the request would be refused, or null if it fits
+export function checkQuota(
+  quota: UserQuota,
+  mediaType: "movie" | "tv",
+  seasons: number[] = []
+): string | null {
+  if (mediaType === "movie") {
+    const { movie } = quota;
+    if (!isLimited(movie) || (movie.remaining ?? 0) > 0) return null;
+    return `Quota reached: no movie requests left (${movie.limit} per ${movie.days} days). Tell the user to try again once older requests fall out of the window.`;
+  }
+
+  const { tv } = quota;
+  const remaining = tv.remaining ?? 0;
+  if (!isLimited(tv) || seasons.length <= remaining) return null;
+  if (remaining === 0) {
+    return `Quota reached: no TV season requests left (${tv.limit} seasons per ${tv.days} days). Tell the user to try again once older requests fall out of the window.`;
+  }
+
+  const trimmed = [...seasons].sort((a, b) => a - b).slice(0, remaining);
+  return `Quota exceeded: this request is for ${seasons.length} seasons but only ${remaining} of ${tv.limit} season requests are left (rolling ${tv.days}-day window). Nothing was submitted. Offer to request just ${remaining === 1 ? "season" : "seasons"} ${trimmed.join(", ")} instead, or let the user pick which ${remaining} to keep.`;
+}
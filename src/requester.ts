@@ -0,0 +1,31 @@
+import { GuildMember } from "discord.js";
+import type { APIInteractionGuildMember, User } from "discord.js";
+import { userLinks } from "./users.js";
+import type { RequesterContext } from "./agent/index.js";
+
+function getRoleIds(member: GuildMember | APIInteractionGuildMember | null | undefined): string[] {
+  if (!member) return [];
+  // Interaction members from uncached guilds arrive as raw API objects
+  return member instanceof GuildMember ? [...member.roles.cache.keys()] : member.roles;
+}
+
+interface RequesterSource {
+  user: User;
+  guildId: string | null | undefined;
+  channelId: string | null | undefined;
+  member: GuildMember | APIInteractionGuildMember | null | undefined;
+}
+
+// Build the context tools run with, resolving the linked Seerr user
+export async function buildRequesterContext(
+  source: RequesterSource
+): Promise<RequesterContext> {
+  return {
+    discordId: source.user.id,
+    discordTag: source.user.tag,
+    guildId: source.guildId ?? undefined,
+    channelId: source.channelId ?? undefined,
+    roleIds: getRoleIds(source.member),
+    seerrUser: await userLinks.resolve(source.user.id),
+  };
+}
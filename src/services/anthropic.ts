@@ -0,0 +1,53 @@
+import Anthropic from "@anthropic-ai/sdk";
+import type {
+  ChatRequest,
+  ChatResponse,
+  LlmProvider,
+  TextBlock,
+  ToolCallBlock,
+  ToolDefinition,
+} from "../types/index.js";
+
+export function toAnthropicTool(tool: ToolDefinition): Anthropic.Tool {
+  return { name: tool.name, description: tool.description, input_schema: tool.inputSchema };
+}
+
+// Claude through the Messages API, streamed so replies can be shown as they are written
+export class AnthropicProvider implements LlmProvider {
+  private client: Anthropic;
+
+  constructor(options: { apiKey: string; baseUrl?: string }) {
+    this.client = new Anthropic({ apiKey: options.apiKey, baseURL: options.baseUrl });
+  }
+
+  async chat(request: ChatRequest): Promise<ChatResponse> {
+    const stream = this.client.messages.stream({
+      model: request.model,
+      max_tokens: request.maxTokens,
+      system: request.system,
+      tools: request.tools.map(toAnthropicTool),
+      // Chat messages already use the Messages API's block format
+      messages: request.messages,
+    });
+    if (request.onText) stream.on("text", request.onText);
+    const message = await stream.finalMessage();
+
+    const content = message.content.flatMap((block): (TextBlock | ToolCallBlock)[] => {
+      if (block.type === "text") return [{ type: "text", text: block.text }];
+      if (block.type === "tool_use") {
+        const input = block.input as Record<string, unknown>;
+        return [{ type: "tool_use", id: block.id, name: block.name, input }];
+      }
+      return [];
+    });
+    const stopReason =
+      message.stop_reason === "tool_use" || message.stop_reason === "max_tokens"
+        ? message.stop_reason
+        : "end_turn";
+    const usage = {
+      inputTokens: message.usage.input_tokens,
+      outputTokens: message.usage.output_tokens,
+    };
+    return { content, stopReason, usage };
+  }
+}
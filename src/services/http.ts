@@ -0,0 +1,125 @@
+import { config } from "../config.js";
+
+// Methods that are safe to send twice. POSTs create requests in Seerr,
+// so they are never retried.
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "PUT", "DELETE"]);
+const RETRY_BASE_DELAY_MS = 500;
+
+export class ApiError extends Error {
+  constructor(
+    /** HTTP status, or undefined when no response arrived (timeout, network failure) */
+    readonly status: number | undefined,
+    /** Raw response body, empty when there was no response */
+    readonly body: string,
+    message: string,
+    options?: ErrorOptions
+  ) {
+    super(message, options);
+    this.name = new.target.name;
+  }
+
+  /** The error message from a JSON body like {"message": "..."}, else the raw body */
+  get detail(): string {
+    try {
+      const parsed = JSON.parse(this.body);
+      if (typeof parsed?.message === "string") return parsed.message;
+      if (typeof parsed?.Error === "string") return parsed.Error;
+    } catch {
+      // Not JSON
+    }
+    return this.body || this.message;
+  }
+
+  /** The service is down or overloaded, rather than rejecting the call */
+  get isUnavailable(): boolean {
+    return this.status === undefined || this.status >= 500;
+  }
+}
+
+export class SeerrApiError extends ApiError {}
+
+export class OmdbApiError extends ApiError {}
+
+export class LlmApiError extends ApiError {}
+
+type ApiErrorClass = new (
+  status: number | undefined,
+  body: string,
+  message: string,
+  options?: ErrorOptions
+) => ApiError;
+
+interface HttpClientOptions {
+  /** Service name used in error messages */
+  service: string;
+  errorClass: ApiErrorClass;
+}
+
+// Overrides of the configured defaults for a single call
+export interface CallOptions {
+  timeoutMs?: number;
+  retries?: number;
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// fetch with a timeout per attempt, bounded retries with exponential backoff
+// for 5xx and network failures, and typed errors for everything else
+export class HttpClient {
+  constructor(private options: HttpClientOptions) {}
+
+  async json<T>(url: string, init: RequestInit = {}, call: CallOptions = {}): Promise<T> {
+    const response = await this.fetch(url, init, call);
+
+    // DELETE endpoints answer with an empty body
+    if (response.status === 204) {
+      return undefined as T;
+    }
+
+    const body = await response.text();
+    try {
+      return JSON.parse(body) as T;
+    } catch (error) {
+      throw new this.options.errorClass(
+        response.status,
+        body,
+        `${this.options.service} returned invalid JSON (${response.status})`,
+        { cause: error }
+      );
+    }
+  }
+
+  // The raw response, for bodies that aren't a single JSON document
+  async fetch(url: string, init: RequestInit = {}, call: CallOptions = {}): Promise<Response> {
+    const { service, errorClass } = this.options;
+    const timeoutMs = call.timeoutMs ?? config.http.timeoutMs;
+    const method = (init.method ?? "GET").toUpperCase();
+    const retries = call.retries ?? config.http.retries;
+    const maxAttempts = IDEMPOTENT_METHODS.has(method) ? retries + 1 : 1;
+
+    for (let attempt = 1; ; attempt++) {
+      let error: ApiError;
+      try {
+        const response = await fetch(url, { ...init, signal: AbortSignal.timeout(timeoutMs) });
+        if (response.ok) return response;
+
+        const body = await response.text().catch(() => "");
+        error = new errorClass(response.status, body, `${service} API error (${response.status}): ${body}`);
+      } catch (cause) {
+        const timedOut = cause instanceof Error && cause.name === "TimeoutError";
+        const message = timedOut
+          ? `${service} did not respond within ${timeoutMs}ms`
+          : `${service} is unreachable: ${cause instanceof Error ? cause.message : String(cause)}`;
+        error = new errorClass(undefined, "", message, { cause });
+      }
+
+      if (!error.isUnavailable || attempt >= maxAttempts) throw error;
+
+      const backoff = RETRY_BASE_DELAY_MS * 2 ** (attempt - 1) + Math.random() * RETRY_BASE_DELAY_MS;
+      console.warn(`${error.message}; retrying ${method} in ${Math.round(backoff)}ms (attempt ${attempt + 1}/${maxAttempts})`);
+      await delay(backoff);
+    }
+  }
+}
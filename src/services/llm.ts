@@ -0,0 +1,11 @@
+import { config } from "../config.js";
+import { AnthropicProvider } from "./anthropic.js";
+import { OpenAiProvider } from "./openai.js";
+import type { LlmProvider } from "../types/index.js";
+
+function createProvider(): LlmProvider {
+  const { llm } = config;
+  return llm.provider === "anthropic" ? new AnthropicProvider(llm) : new OpenAiProvider(llm);
+}
+
+export const llm = createProvider();
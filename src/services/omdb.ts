@@ -1,14 +1,33 @@
 import { config } from "../config.js";
+import { cache } from "../cache.js";
+import { HttpClient, OmdbApiError } from "./http.js";
 import type { OmdbSearchResponse, OmdbDetails } from "../types/index.js";
 
 class OmdbService {
   private apiKey: string;
-  private baseUrl = "https://www.omdbapi.com";
+  private baseUrl = config.omdb.url;
+  private http = new HttpClient({ service: "OMDb", errorClass: OmdbApiError });
 
   constructor() {
     this.apiKey = config.omdb.apiKey;
   }
 
+  // OMDb answers are mostly ratings, so they share the ratings TTL. Failures come
+  // back as 200s with Response "False" (including "Request limit reached!"), and
+  // aren't cached so a passing rate limit doesn't hide ratings for hours.
+  private fetchCached<T extends { Response: "True" | "False" }>(
+    params: URLSearchParams
+  ): Promise<T> {
+    const key = new URLSearchParams(params);
+    key.delete("apikey");
+    return cache.get(
+      `omdb:${key}`,
+      "ratings",
+      () => this.http.json<T>(`${this.baseUrl}/?${params}`),
+      (body) => body.Response === "True"
+    );
+  }
+
   async searchByTitle(
     title: string,
     options?: {
@@ -28,8 +47,7 @@ class OmdbService {
       params.set("type", options.type);
     }
 
-    const response = await fetch(`${this.baseUrl}/?${params}`);
-    return response.json();
+    return this.fetchCached(params);
   }
 
   async getByImdbId(imdbId: string): Promise<OmdbDetails> {
@@ -39,8 +57,7 @@ class OmdbService {
       plot: "short",
     });
 
-    const response = await fetch(`${this.baseUrl}/?${params}`);
-    return response.json();
+    return this.fetchCached(params);
   }
 
   async getByTitle(
@@ -63,8 +80,7 @@ class OmdbService {
       params.set("type", options.type);
     }
 
-    const response = await fetch(`${this.baseUrl}/?${params}`);
-    return response.json();
+    return this.fetchCached(params);
   }
 }
 
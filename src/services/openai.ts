@@ -0,0 +1,225 @@
+import { randomUUID } from "node:crypto";
+import { HttpClient, LlmApiError } from "./http.js";
+import type {
+  ChatMessage,
+  ChatRequest,
+  ChatResponse,
+  ContentBlock,
+  LlmProvider,
+  TextBlock,
+  ToolCallBlock,
+  ToolDefinition,
+} from "../types/index.js";
+
+// Whole replies from self-hosted models can take minutes on modest hardware
+const REQUEST_TIMEOUT_MS = 5 * 60 * 1000;
+
+interface OpenAiToolCall {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string };
+}
+
+export interface OpenAiMessage {
+  role: "system" | "user" | "assistant" | "tool";
+  content: string | null;
+  tool_calls?: OpenAiToolCall[];
+  tool_call_id?: string;
+}
+
+// One server-sent event of a streamed chat completion
+interface ChatCompletionChunk {
+  choices?: {
+    delta?: {
+      content?: string | null;
+      tool_calls?: {
+        index: number;
+        id?: string;
+        function?: { name?: string; arguments?: string };
+      }[];
+    };
+    finish_reason?: string | null;
+  }[];
+  usage?: { prompt_tokens: number; completion_tokens: number } | null;
+}
+
+export function toOpenAiTool(tool: ToolDefinition) {
+  return {
+    type: "function" as const,
+    function: { name: tool.name, description: tool.description, parameters: tool.inputSchema },
+  };
+}
+
+function textOf(blocks: ContentBlock[]): string {
+  return blocks.flatMap((block) => (block.type === "text" ? [block.text] : [])).join("\n");
+}
+
+// Tool calls move into the assistant message's tool_calls, and each tool
+// result becomes a "tool" message right after the call it answers
+export function toOpenAiMessages(system: string, messages: ChatMessage[]): OpenAiMessage[] {
+  const converted: OpenAiMessage[] = [{ role: "system", content: system }];
+  for (const message of messages) {
+    if (typeof message.content === "string") {
+      converted.push({ role: message.role, content: message.content });
+      continue;
+    }
+
+    const blocks = message.content;
+    if (message.role === "assistant") {
+      const calls = blocks.filter((block): block is ToolCallBlock => block.type === "tool_use");
+      converted.push({
+        role: "assistant",
+        content: textOf(blocks) || null,
+        ...(calls.length > 0 && {
+          tool_calls: calls.map((call) => ({
+            id: call.id,
+            type: "function" as const,
+            function: { name: call.name, arguments: JSON.stringify(call.input) },
+          })),
+        }),
+      });
+      continue;
+    }
+
+    for (const block of blocks) {
+      if (block.type === "tool_result") {
+        converted.push({ role: "tool", tool_call_id: block.tool_use_id, content: block.content });
+      }
+    }
+    const text = textOf(blocks);
+    if (text) converted.push({ role: "user", content: text });
+  }
+  return converted;
+}
+
+// Smaller models sometimes send arguments that aren't valid JSON
+function parseArguments(name: string, json: string): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(json || "{}");
+    if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) return parsed;
+  } catch {
+    // Reported below
+  }
+  console.warn(`Ignoring invalid arguments for ${name}: ${json}`);
+  return {};
+}
+
+// Failures mid-stream surface as LlmApiErrors, like failures before it
+async function* readEvents(response: Response): AsyncGenerator<ChatCompletionChunk> {
+  if (!response.body) {
+    throw new LlmApiError(response.status, "", "LLM server sent an empty response");
+  }
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  for (;;) {
+    let read: ReadableStreamReadResult<Uint8Array>;
+    try {
+      read = await reader.read();
+    } catch (cause) {
+      // The request's timeout also covers the streamed body
+      const message =
+        cause instanceof Error && cause.name === "TimeoutError"
+          ? `LLM server did not finish its reply within ${REQUEST_TIMEOUT_MS}ms`
+          : `LLM server stream broke off: ${cause instanceof Error ? cause.message : String(cause)}`;
+      throw new LlmApiError(undefined, "", message, { cause });
+    }
+    const { done, value } = read;
+    buffer += decoder.decode(value, { stream: !done });
+    const lines = buffer.split("\n");
+    buffer = done ? "" : lines.pop()!;
+
+    for (const line of lines) {
+      const data = line.trim().match(/^data:\s*(.+)$/)?.[1];
+      if (!data || data === "[DONE]") continue;
+      try {
+        yield JSON.parse(data);
+      } catch (cause) {
+        throw new LlmApiError(response.status, data, "LLM server sent an event that isn't JSON", {
+          cause,
+        });
+      }
+    }
+    if (done) return;
+  }
+}
+
+// Any server speaking OpenAI's chat completions API, e.g. OpenAI itself, or a
+// self-hosted model behind Ollama, vLLM, llama.cpp or LM Studio
+export class OpenAiProvider implements LlmProvider {
+  private http = new HttpClient({ service: "LLM server", errorClass: LlmApiError });
+
+  constructor(
+    private options: {
+      baseUrl: string;
+      apiKey?: string;
+      /** Newer OpenAI models only accept max_completion_tokens */
+      maxTokensField: "max_tokens" | "max_completion_tokens";
+    }
+  ) {}
+
+  async chat(request: ChatRequest): Promise<ChatResponse> {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (this.options.apiKey) headers.Authorization = `Bearer ${this.options.apiKey}`;
+
+    const response = await this.http.fetch(
+      `${this.options.baseUrl}/chat/completions`,
+      {
+        method: "POST",
+        headers,
+        body: JSON.stringify({
+          model: request.model,
+          [this.options.maxTokensField]: request.maxTokens,
+          messages: toOpenAiMessages(request.system, request.messages),
+          ...(request.tools.length > 0 && { tools: request.tools.map(toOpenAiTool) }),
+          stream: true,
+          stream_options: { include_usage: true },
+        }),
+      },
+      { timeoutMs: REQUEST_TIMEOUT_MS }
+    );
+
+    let text = "";
+    const calls: { id: string; name: string; arguments: string }[] = [];
+    let finishReason: string | null | undefined;
+    const usage = { inputTokens: 0, outputTokens: 0 };
+
+    for await (const chunk of readEvents(response)) {
+      if (chunk.usage) {
+        usage.inputTokens = chunk.usage.prompt_tokens;
+        usage.outputTokens = chunk.usage.completion_tokens;
+      }
+      const choice = chunk.choices?.[0];
+      if (!choice) continue;
+
+      if (choice.delta?.content) {
+        text += choice.delta.content;
+        request.onText?.(choice.delta.content);
+      }
+      // Tool calls arrive in pieces, keyed by their position in the reply
+      for (const call of choice.delta?.tool_calls ?? []) {
+        const entry = (calls[call.index] ??= { id: "", name: "", arguments: "" });
+        if (call.id) entry.id = call.id;
+        entry.name += call.function?.name ?? "";
+        entry.arguments += call.function?.arguments ?? "";
+      }
+      finishReason = choice.finish_reason ?? finishReason;
+    }
+
+    const content: (TextBlock | ToolCallBlock)[] = text ? [{ type: "text", text }] : [];
+    for (const call of calls.filter(Boolean)) {
+      content.push({
+        type: "tool_use",
+        // Some servers leave the ID out; results are matched to calls by it
+        id: call.id || `call_${randomUUID()}`,
+        name: call.name,
+        input: parseArguments(call.name, call.arguments),
+      });
+    }
+
+    // Servers differ on the finish reason they give for tool calls
+    const stopReason =
+      finishReason === "length" ? "max_tokens" : calls.length > 0 ? "tool_use" : "end_turn";
+    return { content, stopReason, usage };
+  }
+}
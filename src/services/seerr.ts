@@ -1,22 +1,33 @@
 import { config } from "../config.js";
+import { cache, invalidateMedia, type CacheKind } from "../cache.js";
+import { HttpClient, SeerrApiError, type CallOptions } from "./http.js";
 import type {
   SearchResponse,
   MovieDetails,
   TvDetails,
   RequestResponse,
+  RequestOptions,
   RequestListResponse,
-  RequestFilter,
+  RequestListOptions,
   MediaRequestItem,
   DiscoverResponse,
   DiscoverMovieOptions,
   DiscoverTvOptions,
   RatingsResponse,
   RTRating,
+  SeasonDetails,
+  SeerrUser,
+  ServiceDetails,
+  ServiceServer,
+  UserListResponse,
+  UserNotificationSettings,
+  UserQuota,
 } from "../types/index.js";
 
 class SeerrService {
   private baseUrl: string;
   private apiKey: string;
+  private http = new HttpClient({ service: "Seerr", errorClass: SeerrApiError });
 
   constructor() {
     this.baseUrl = config.seerr.url.replace(/\/$/, "");
@@ -25,104 +36,243 @@ class SeerrService {
 
   private async request<T>(
     endpoint: string,
-    options: RequestInit = {}
+    options: RequestInit = {},
+    call: CallOptions = {}
   ): Promise<T> {
-    const url = `${this.baseUrl}${endpoint}`;
-    const response = await fetch(url, {
-      ...options,
-      headers: {
-        "X-Api-Key": this.apiKey,
-        "Content-Type": "application/json",
-        ...options.headers,
+    return this.http.json<T>(
+      `${this.baseUrl}${endpoint}`,
+      {
+        ...options,
+        headers: {
+          "X-Api-Key": this.apiKey,
+          "Content-Type": "application/json",
+          ...options.headers,
+        },
       },
-    });
+      call
+    );
+  }
 
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`Seerr API error (${response.status}): ${error}`);
-    }
+  private cached<T>(
+    key: string,
+    kind: CacheKind,
+    endpoint: string,
+    call: CallOptions = {}
+  ): Promise<T> {
+    return cache.get(key, kind, () => this.request<T>(endpoint, {}, call));
+  }
 
-    return response.json();
+  // Request changes move the media's status, so its cached details are stale
+  private afterRequestChange<T extends { type: "movie" | "tv"; media: { tmdbId: number } }>(
+    request: T
+  ): T {
+    invalidateMedia(request.type, request.media.tmdbId);
+    return request;
   }
 
-  async search(query: string): Promise<SearchResponse> {
+  async search(query: string, page: number = 1, call: CallOptions = {}): Promise<SearchResponse> {
     const encodedQuery = encodeURIComponent(query);
-    return this.request<SearchResponse>(`/api/v1/search?query=${encodedQuery}`);
+    return this.cached<SearchResponse>(
+      `search:${query.toLowerCase()}:${page}`,
+      "metadata",
+      `/api/v1/search?query=${encodedQuery}&page=${page}`,
+      call
+    );
+  }
+
+  // Details include the media's request status, so they default to the short
+  // status TTL. Callers that only need titles or posters can pass "metadata".
+  async getMovieDetails(tmdbId: number, kind: CacheKind = "status"): Promise<MovieDetails> {
+    return this.cached<MovieDetails>(`movie:${tmdbId}`, kind, `/api/v1/movie/${tmdbId}`);
   }
 
-  async getMovieDetails(tmdbId: number): Promise<MovieDetails> {
-    return this.request<MovieDetails>(`/api/v1/movie/${tmdbId}`);
+  async getTvDetails(tmdbId: number, kind: CacheKind = "status"): Promise<TvDetails> {
+    return this.cached<TvDetails>(`tv:${tmdbId}`, kind, `/api/v1/tv/${tmdbId}`);
   }
 
-  async getTvDetails(tmdbId: number): Promise<TvDetails> {
-    return this.request<TvDetails>(`/api/v1/tv/${tmdbId}`);
+  async getSeasonDetails(tmdbId: number, seasonNumber: number): Promise<SeasonDetails> {
+    return this.cached<SeasonDetails>(
+      `tv:${tmdbId}:season:${seasonNumber}`,
+      "metadata",
+      `/api/v1/tv/${tmdbId}/season/${seasonNumber}`
+    );
   }
 
-  async requestMovie(tmdbId: number): Promise<RequestResponse> {
-    return this.request<RequestResponse>("/api/v1/request", {
+  async requestMovie(
+    tmdbId: number,
+    options: RequestOptions = {}
+  ): Promise<RequestResponse> {
+    const response = await this.request<RequestResponse>("/api/v1/request", {
       method: "POST",
       body: JSON.stringify({
         mediaType: "movie",
         mediaId: tmdbId,
-        is4k: false,
+        ...this.buildRequestOptions(options),
       }),
     });
+    invalidateMedia("movie", tmdbId);
+    return response;
   }
 
-  async requestTv(tmdbId: number, seasons: number[]): Promise<RequestResponse> {
-    return this.request<RequestResponse>("/api/v1/request", {
+  async requestTv(
+    tmdbId: number,
+    seasons: number[],
+    options: RequestOptions = {}
+  ): Promise<RequestResponse> {
+    const response = await this.request<RequestResponse>("/api/v1/request", {
       method: "POST",
       body: JSON.stringify({
         mediaType: "tv",
         mediaId: tmdbId,
         seasons,
-        is4k: false,
+        ...this.buildRequestOptions(options),
       }),
     });
+    invalidateMedia("tv", tmdbId);
+    return response;
   }
 
-  async listRequests(
-    filter?: RequestFilter,
-    take: number = 20
-  ): Promise<RequestListResponse> {
-    const params = new URLSearchParams();
-    params.set("take", take.toString());
-    if (filter) {
-      params.set("filter", filter);
-    }
+  private buildRequestOptions(options: RequestOptions) {
+    return {
+      is4k: options.is4k ?? false,
+      userId: options.userId,
+      serverId: options.serverId,
+      profileId: options.profileId,
+      rootFolder: options.rootFolder,
+      languageProfileId: options.languageProfileId,
+      tags: options.tags,
+    };
+  }
+
+  async listRequests(options: RequestListOptions = {}): Promise<RequestListResponse> {
+    const params = new URLSearchParams({
+      take: (options.take ?? 20).toString(),
+      skip: (options.skip ?? 0).toString(),
+    });
+    if (options.filter) params.set("filter", options.filter);
+    if (options.sort) params.set("sort", options.sort);
+    if (options.sortDirection) params.set("sortDirection", options.sortDirection);
+    if (options.requestedBy) params.set("requestedBy", options.requestedBy.toString());
+    if (options.mediaType) params.set("mediaType", options.mediaType);
     return this.request<RequestListResponse>(`/api/v1/request?${params}`);
   }
 
+  async getRequest(requestId: number): Promise<MediaRequestItem> {
+    return this.request<MediaRequestItem>(`/api/v1/request/${requestId}`);
+  }
+
   async approveRequest(requestId: number): Promise<MediaRequestItem> {
-    return this.request<MediaRequestItem>(
+    const request = await this.request<MediaRequestItem>(
       `/api/v1/request/${requestId}/approve`,
       { method: "POST" }
     );
+    return this.afterRequestChange(request);
   }
 
   async declineRequest(requestId: number): Promise<MediaRequestItem> {
-    return this.request<MediaRequestItem>(
+    const request = await this.request<MediaRequestItem>(
       `/api/v1/request/${requestId}/decline`,
       { method: "POST" }
     );
+    return this.afterRequestChange(request);
+  }
+
+  async deleteRequest(request: MediaRequestItem): Promise<void> {
+    await this.request<void>(`/api/v1/request/${request.id}`, { method: "DELETE" });
+    this.afterRequestChange(request);
+  }
+
+  async updateRequestSeasons(
+    request: MediaRequestItem,
+    seasons: number[]
+  ): Promise<MediaRequestItem> {
+    const updated = await this.request<MediaRequestItem>(`/api/v1/request/${request.id}`, {
+      method: "PUT",
+      body: JSON.stringify({
+        mediaType: "tv",
+        seasons,
+        is4k: request.is4k,
+        userId: request.requestedBy.id,
+      }),
+    });
+    return this.afterRequestChange(updated);
+  }
+
+  async retryRequest(requestId: number): Promise<MediaRequestItem> {
+    const request = await this.request<MediaRequestItem>(
+      `/api/v1/request/${requestId}/retry`,
+      { method: "POST" }
+    );
+    return this.afterRequestChange(request);
+  }
+
+  // Users
+
+  async listUsers(take: number = 100, skip: number = 0): Promise<UserListResponse> {
+    const params = new URLSearchParams({
+      take: take.toString(),
+      skip: skip.toString(),
+    });
+    return this.request<UserListResponse>(`/api/v1/user?${params}`);
+  }
+
+  async getUser(userId: number): Promise<SeerrUser> {
+    return this.request<SeerrUser>(`/api/v1/user/${userId}`);
+  }
+
+  async getUserQuota(userId: number): Promise<UserQuota> {
+    return this.request<UserQuota>(`/api/v1/user/${userId}/quota`);
+  }
+
+  async getUserNotificationSettings(
+    userId: number
+  ): Promise<UserNotificationSettings> {
+    return this.request<UserNotificationSettings>(
+      `/api/v1/user/${userId}/settings/notifications`
+    );
+  }
+
+  // Radarr/Sonarr services
+
+  async listServers(mediaType: "movie" | "tv"): Promise<ServiceServer[]> {
+    const service = mediaType === "movie" ? "radarr" : "sonarr";
+    return this.cached<ServiceServer[]>(`service:${service}`, "metadata", `/api/v1/service/${service}`);
+  }
+
+  async getServiceDetails(
+    mediaType: "movie" | "tv",
+    serverId: number
+  ): Promise<ServiceDetails> {
+    const service = mediaType === "movie" ? "radarr" : "sonarr";
+    return this.cached<ServiceDetails>(
+      `service:${service}:${serverId}`,
+      "metadata",
+      `/api/v1/service/${service}/${serverId}`
+    );
   }
 
   // Discovery methods
 
   async discoverTrending(page: number = 1): Promise<DiscoverResponse> {
-    return this.request<DiscoverResponse>(
+    return this.cached<DiscoverResponse>(
+      `discover:trending:${page}`,
+      "metadata",
       `/api/v1/discover/trending?page=${page}`
     );
   }
 
   async discoverUpcomingMovies(page: number = 1): Promise<DiscoverResponse> {
-    return this.request<DiscoverResponse>(
+    return this.cached<DiscoverResponse>(
+      `discover:upcoming-movies:${page}`,
+      "metadata",
       `/api/v1/discover/movies/upcoming?page=${page}`
     );
   }
 
   async discoverUpcomingTv(page: number = 1): Promise<DiscoverResponse> {
-    return this.request<DiscoverResponse>(
+    return this.cached<DiscoverResponse>(
+      `discover:upcoming-tv:${page}`,
+      "metadata",
       `/api/v1/discover/tv/upcoming?page=${page}`
     );
   }
@@ -139,7 +289,9 @@ class SeerrService {
     if (options.minRating) params.set("voteAverageGte", options.minRating.toString());
 
     const query = params.toString();
-    return this.request<DiscoverResponse>(
+    return this.cached<DiscoverResponse>(
+      `discover:movies:${query}`,
+      "metadata",
       `/api/v1/discover/movies${query ? `?${query}` : ""}`
     );
   }
@@ -156,31 +308,43 @@ class SeerrService {
     if (options.minRating) params.set("voteAverageGte", options.minRating.toString());
 
     const query = params.toString();
-    return this.request<DiscoverResponse>(
+    return this.cached<DiscoverResponse>(
+      `discover:tv:${query}`,
+      "metadata",
       `/api/v1/discover/tv${query ? `?${query}` : ""}`
     );
   }
 
   // Similar media
 
-  async getSimilarMovies(tmdbId: number): Promise<DiscoverResponse> {
-    return this.request<DiscoverResponse>(`/api/v1/movie/${tmdbId}/similar`);
+  async getSimilarMovies(tmdbId: number, page: number = 1): Promise<DiscoverResponse> {
+    return this.cached<DiscoverResponse>(
+      `similar:movie:${tmdbId}:${page}`,
+      "metadata",
+      `/api/v1/movie/${tmdbId}/similar?page=${page}`
+    );
   }
 
-  async getSimilarTv(tmdbId: number): Promise<DiscoverResponse> {
-    return this.request<DiscoverResponse>(`/api/v1/tv/${tmdbId}/similar`);
+  async getSimilarTv(tmdbId: number, page: number = 1): Promise<DiscoverResponse> {
+    return this.cached<DiscoverResponse>(
+      `similar:tv:${tmdbId}:${page}`,
+      "metadata",
+      `/api/v1/tv/${tmdbId}/similar?page=${page}`
+    );
   }
 
   // Ratings
 
   async getMovieRatings(tmdbId: number): Promise<RatingsResponse> {
-    return this.request<RatingsResponse>(
+    return this.cached<RatingsResponse>(
+      `ratings:movie:${tmdbId}`,
+      "ratings",
       `/api/v1/movie/${tmdbId}/ratingscombined`
     );
   }
 
   async getTvRatings(tmdbId: number): Promise<RTRating> {
-    return this.request<RTRating>(`/api/v1/tv/${tmdbId}/ratings`);
+    return this.cached<RTRating>(`ratings:tv:${tmdbId}`, "ratings", `/api/v1/tv/${tmdbId}/ratings`);
   }
 }
 
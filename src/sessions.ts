@@ -1,51 +1,189 @@
-import Anthropic from "@anthropic-ai/sdk";
+import { mkdirSync } from "node:fs";
+import { dirname } from "node:path";
+import type { DatabaseSync } from "node:sqlite";
+import { config } from "./config.js";
+import { settings } from "./settings.js";
+import type { ListCursor } from "./agent/index.js";
+import type { ChatMessage } from "./types/index.js";
 
 interface Session {
-  messages: Anthropic.MessageParam[];
+  messages: ChatMessage[];
   lastActivity: number;
+  /** Position in the last list shown, so "next page" can continue it */
+  listCursor?: ListCursor;
 }
 
-const SESSION_TTL_MS = 30 * 60 * 1000; // 30 minutes
+// Backing storage for sessions. Expiry is decided by SessionManager.
+export interface SessionStore {
+  get(userId: string): Session | undefined;
+  set(userId: string, session: Session): void;
+  delete(userId: string): void;
+  /** Remove sessions last active before the cutoff, returning how many were removed */
+  deleteOlderThan(cutoff: number): number;
+}
 
-class SessionManager {
+export class MemorySessionStore implements SessionStore {
   private sessions = new Map<string, Session>();
 
-  get(userId: string): Anthropic.MessageParam[] | undefined {
-    const session = this.sessions.get(userId);
+  get(userId: string): Session | undefined {
+    return this.sessions.get(userId);
+  }
+
+  set(userId: string, session: Session): void {
+    this.sessions.set(userId, session);
+  }
+
+  delete(userId: string): void {
+    this.sessions.delete(userId);
+  }
+
+  deleteOlderThan(cutoff: number): number {
+    let removed = 0;
+    for (const [userId, session] of this.sessions) {
+      if (session.lastActivity < cutoff) {
+        this.sessions.delete(userId);
+        removed++;
+      }
+    }
+    return removed;
+  }
+}
+
+export class SqliteSessionStore implements SessionStore {
+  constructor(private db: DatabaseSync) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS sessions (
+        user_id TEXT PRIMARY KEY,
+        messages TEXT NOT NULL,
+        last_activity INTEGER NOT NULL
+      )
+    `);
+
+    // Databases created before list cursors were stored lack the column
+    const columns = db.prepare("PRAGMA table_info(sessions)").all() as { name: string }[];
+    if (!columns.some((column) => column.name === "list_cursor")) {
+      db.exec("ALTER TABLE sessions ADD COLUMN list_cursor TEXT");
+    }
+  }
+
+  get(userId: string): Session | undefined {
+    const row = this.db
+      .prepare("SELECT messages, last_activity, list_cursor FROM sessions WHERE user_id = ?")
+      .get(userId) as
+      | { messages: string; last_activity: number; list_cursor: string | null }
+      | undefined;
+    if (!row) return undefined;
+
+    return {
+      messages: JSON.parse(row.messages),
+      lastActivity: row.last_activity,
+      listCursor: row.list_cursor ? JSON.parse(row.list_cursor) : undefined,
+    };
+  }
+
+  set(userId: string, session: Session): void {
+    this.db
+      .prepare(
+        `INSERT INTO sessions (user_id, messages, last_activity, list_cursor) VALUES (?, ?, ?, ?)
+         ON CONFLICT(user_id) DO UPDATE SET messages = excluded.messages,
+           last_activity = excluded.last_activity, list_cursor = excluded.list_cursor`
+      )
+      .run(
+        userId,
+        JSON.stringify(session.messages),
+        session.lastActivity,
+        session.listCursor ? JSON.stringify(session.listCursor) : null
+      );
+  }
+
+  delete(userId: string): void {
+    this.db.prepare("DELETE FROM sessions WHERE user_id = ?").run(userId);
+  }
+
+  deleteOlderThan(cutoff: number): number {
+    const result = this.db
+      .prepare("DELETE FROM sessions WHERE last_activity < ?")
+      .run(cutoff);
+    return Number(result.changes);
+  }
+}
+
+async function createSessionStore(): Promise<SessionStore> {
+  if (config.sessions.store === "memory") {
+    return new MemorySessionStore();
+  }
+
+  let sqlite: typeof import("node:sqlite");
+  try {
+    sqlite = await import("node:sqlite");
+  } catch {
+    throw new Error(
+      "SESSION_STORE=sqlite requires Node.js 22.13 or newer. Upgrade Node or set SESSION_STORE=memory."
+    );
+  }
+
+  mkdirSync(dirname(config.sessions.dbPath), { recursive: true });
+  return new SqliteSessionStore(new sqlite.DatabaseSync(config.sessions.dbPath));
+}
+
+class SessionManager {
+  constructor(
+    private store: SessionStore,
+    // Read on every use so a reloaded TTL applies straight away
+    private getTtlMs: () => number
+  ) {}
+
+  private getSession(userId: string): Session | undefined {
+    const session = this.store.get(userId);
     if (!session) return undefined;
 
     // Check if session has expired
-    if (Date.now() - session.lastActivity > SESSION_TTL_MS) {
-      this.sessions.delete(userId);
+    if (Date.now() - session.lastActivity > this.getTtlMs()) {
+      this.store.delete(userId);
       return undefined;
     }
 
-    return session.messages;
+    return session;
+  }
+
+  get(userId: string): ChatMessage[] | undefined {
+    return this.getSession(userId)?.messages;
   }
 
-  set(userId: string, messages: Anthropic.MessageParam[]): void {
-    this.sessions.set(userId, {
+  getListCursor(userId: string): ListCursor | undefined {
+    return this.getSession(userId)?.listCursor;
+  }
+
+  set(userId: string, messages: ChatMessage[], listCursor?: ListCursor): void {
+    this.store.set(userId, {
       messages,
       lastActivity: Date.now(),
+      listCursor,
     });
   }
 
+  // Remember a list shown outside a conversation (slash commands, buttons)
+  setListCursor(userId: string, listCursor: ListCursor): void {
+    this.set(userId, this.get(userId) ?? [], listCursor);
+  }
+
   clear(userId: string): void {
-    this.sessions.delete(userId);
+    this.store.delete(userId);
   }
 
   // Cleanup expired sessions periodically
   cleanup(): void {
-    const now = Date.now();
-    for (const [userId, session] of this.sessions) {
-      if (now - session.lastActivity > SESSION_TTL_MS) {
-        this.sessions.delete(userId);
-      }
-    }
+    this.store.deleteOlderThan(Date.now() - this.getTtlMs());
   }
 }
 
-export const sessionManager = new SessionManager();
+export const sessionManager = new SessionManager(
+  await createSessionStore(),
+  () => settings.sessionTtlMinutes * 60 * 1000
+);
 
-// Run cleanup every 5 minutes
-setInterval(() => sessionManager.cleanup(), 5 * 60 * 1000);
+// Housekeeping only; don't keep the process alive for it
+setInterval(
+  () => sessionManager.cleanup(),
+  config.sessions.cleanupIntervalMinutes * 60 * 1000
+).unref();
@@ -0,0 +1,259 @@
+import { readFileSync, watchFile } from "node:fs";
+import { config } from "./config.js";
+import {
+  checkBoolean,
+  checkGenreDefaults,
+  checkIdKeys,
+  checkIdList,
+  checkObject,
+  checkString,
+} from "./validation.js";
+import type { RequestOverrides } from "./types/index.js";
+
+// Behaviour that can differ per Discord server and channel, loaded from the
+// config file and reloaded when it changes. Secrets and connection settings
+// stay in the environment (see config.ts), whose values also act as defaults.
+
+export interface FeatureToggles {
+  /** request_media and cancelling, editing or retrying requests */
+  requests: boolean;
+  /** Trending, upcoming, browsing and similar titles */
+  discovery: boolean;
+  /** Approving and declining from chat or slash commands */
+  approvals: boolean;
+}
+
+/** Daily token budgets (input + output); 0 means unlimited */
+export interface TokenBudgets {
+  /** Per Discord user, across all servers */
+  userDailyTokens: number;
+  /** Per server, across all its users */
+  guildDailyTokens: number;
+}
+
+// Settings in effect for one message, after guild and channel overrides
+export interface ScopeSettings {
+  model: string;
+  managerRoleIds: string[];
+  enable4k: boolean;
+  genreDefaults: Record<string, RequestOverrides>;
+  features: FeatureToggles;
+  budgets: TokenBudgets;
+}
+
+interface ScopeOverrides {
+  model?: string;
+  managerRoleIds?: string[];
+  requests?: { enable4k?: boolean; genreDefaults?: Record<string, RequestOverrides> };
+  features?: Partial<FeatureToggles>;
+  budgets?: Partial<TokenBudgets>;
+}
+
+interface GuildSettingsFile extends ScopeOverrides {
+  /** Channels the bot answers in; omitted means all of them */
+  allowedChannelIds?: string[];
+  channels?: Record<string, ScopeOverrides>;
+}
+
+interface SettingsFile extends ScopeOverrides {
+  /** Servers the bot answers in; omitted means all of them */
+  allowedGuildIds?: string[];
+  allowDirectMessages?: boolean;
+  sessionTtlMinutes?: number;
+  guilds?: Record<string, GuildSettingsFile>;
+}
+
+export interface SettingsScope {
+  guildId?: string;
+  channelId?: string;
+}
+
+const RELOAD_POLL_INTERVAL_MS = 2000;
+
+const DEFAULT_FEATURES: FeatureToggles = { requests: true, discovery: true, approvals: true };
+
+export const FEATURE_DESCRIPTIONS: Record<keyof FeatureToggles, string> = {
+  requests: "submitting, cancelling, editing or retrying requests",
+  discovery: "trending, upcoming, browsing and similar titles",
+  approvals: "approving or declining requests",
+};
+
+const SCOPE_KEYS = ["model", "managerRoleIds", "requests", "features", "budgets"];
+const GUILD_KEYS = [...SCOPE_KEYS, "allowedChannelIds", "channels"];
+const FILE_KEYS = [
+  ...SCOPE_KEYS,
+  "allowedGuildIds",
+  "allowDirectMessages",
+  "sessionTtlMinutes",
+  "guilds",
+];
+
+function checkScope(value: Record<string, unknown>, path: string, errors: string[]): void {
+  checkString(value.model, `${path}.model`, errors);
+  checkIdList(value.managerRoleIds, `${path}.managerRoleIds`, errors);
+
+  const { requests, features, budgets } = value;
+  if (requests !== undefined) {
+    if (checkObject(requests, `${path}.requests`, ["enable4k", "genreDefaults"], errors)) {
+      checkBoolean(requests.enable4k, `${path}.requests.enable4k`, errors);
+      checkGenreDefaults(requests.genreDefaults, `${path}.requests.genreDefaults`, errors);
+    }
+  }
+
+  const budgetKeys = ["userDailyTokens", "guildDailyTokens"];
+  if (budgets !== undefined && checkObject(budgets, `${path}.budgets`, budgetKeys, errors)) {
+    for (const key of budgetKeys) {
+      const budget = budgets[key];
+      if (budget !== undefined && (!Number.isInteger(budget) || (budget as number) < 0)) {
+        errors.push(`${path}.budgets.${key} must be a whole number of tokens (0 for unlimited)`);
+      }
+    }
+  }
+
+  const featureKeys = Object.keys(DEFAULT_FEATURES);
+  if (features !== undefined && checkObject(features, `${path}.features`, featureKeys, errors)) {
+    for (const feature of featureKeys) {
+      checkBoolean(features[feature], `${path}.features.${feature}`, errors);
+    }
+  }
+}
+
+function validateSettings(value: unknown): string[] {
+  const errors: string[] = [];
+  if (!checkObject(value, "settings", FILE_KEYS, errors)) return errors;
+
+  checkScope(value, "settings", errors);
+  checkIdList(value.allowedGuildIds, "settings.allowedGuildIds", errors);
+  checkBoolean(value.allowDirectMessages, "settings.allowDirectMessages", errors);
+  const ttl = value.sessionTtlMinutes;
+  if (ttl !== undefined && (typeof ttl !== "number" || !(ttl > 0))) {
+    errors.push("settings.sessionTtlMinutes must be a positive number");
+  }
+
+  if (value.guilds === undefined || !checkObject(value.guilds, "settings.guilds", null, errors)) {
+    return errors;
+  }
+  checkIdKeys(value.guilds, "settings.guilds", errors);
+  for (const [guildId, guild] of Object.entries(value.guilds)) {
+    const guildPath = `settings.guilds.${guildId}`;
+    if (!checkObject(guild, guildPath, GUILD_KEYS, errors)) continue;
+    checkScope(guild, guildPath, errors);
+    checkIdList(guild.allowedChannelIds, `${guildPath}.allowedChannelIds`, errors);
+
+    const channels = guild.channels;
+    if (channels === undefined || !checkObject(channels, `${guildPath}.channels`, null, errors)) {
+      continue;
+    }
+    checkIdKeys(channels, `${guildPath}.channels`, errors);
+    for (const [channelId, channel] of Object.entries(channels)) {
+      const channelPath = `${guildPath}.channels.${channelId}`;
+      if (checkObject(channel, channelPath, SCOPE_KEYS, errors)) {
+        checkScope(channel, channelPath, errors);
+      }
+    }
+  }
+  return errors;
+}
+
+export function parseSettingsFile(text: string, source: string): SettingsFile {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Config file ${source} is not valid JSON: ${(error as Error).message}`);
+  }
+
+  const errors = validateSettings(parsed);
+  if (errors.length > 0) {
+    const list = errors.map((error) => `  - ${error}`).join("\n");
+    throw new Error(`Config file ${source} is invalid:\n${list}`);
+  }
+  return parsed as SettingsFile;
+}
+
+// Objects merge key by key, lists and plain values replace
+function applyOverrides(base: ScopeSettings, overrides: ScopeOverrides | undefined): ScopeSettings {
+  if (!overrides) return base;
+  const genreDefaults = overrides.requests?.genreDefaults;
+  return {
+    model: overrides.model ?? base.model,
+    managerRoleIds: overrides.managerRoleIds ?? base.managerRoleIds,
+    enable4k: overrides.requests?.enable4k ?? base.enable4k,
+    genreDefaults: genreDefaults
+      ? Object.fromEntries(
+          Object.entries(genreDefaults).map(([genre, o]) => [genre.toLowerCase(), o])
+        )
+      : base.genreDefaults,
+    features: { ...base.features, ...overrides.features },
+    budgets: { ...base.budgets, ...overrides.budgets },
+  };
+}
+
+class SettingsManager {
+  private file: SettingsFile;
+
+  constructor(private path: string | undefined) {
+    // Invalid settings stop the bot at startup; later edits only get logged
+    this.file = this.read();
+  }
+
+  private read(): SettingsFile {
+    if (!this.path) return {};
+    return parseSettingsFile(readFileSync(this.path, "utf8"), this.path);
+  }
+
+  // Keep the previous settings when the edited file doesn't validate
+  reload(): void {
+    try {
+      this.file = this.read();
+    } catch (error) {
+      console.error(`${(error as Error).message}\nKeeping the previous settings.`);
+      return;
+    }
+    console.log(`Reloaded settings from ${this.path}`);
+  }
+
+  // Polls rather than using fs.watch, which loses track of files that editors
+  // replace on save
+  watch(): void {
+    if (!this.path) return;
+    const path = this.path;
+    const options = { interval: RELOAD_POLL_INTERVAL_MS, persistent: false };
+    watchFile(path, options, (current, previous) => {
+      if (current.mtimeMs !== previous.mtimeMs) this.reload();
+    });
+    console.log(`Watching ${path} for settings changes`);
+  }
+
+  get sessionTtlMinutes(): number {
+    return this.file.sessionTtlMinutes ?? config.sessions.ttlMinutes;
+  }
+
+  // Whether the bot should answer in this server/channel, or in DMs
+  isAllowed(scope: SettingsScope): boolean {
+    if (!scope.guildId) return this.file.allowDirectMessages ?? true;
+
+    const { allowedGuildIds } = this.file;
+    if (allowedGuildIds && !allowedGuildIds.includes(scope.guildId)) return false;
+
+    const allowedChannelIds = this.file.guilds?.[scope.guildId]?.allowedChannelIds;
+    if (!allowedChannelIds) return true;
+    return scope.channelId !== undefined && allowedChannelIds.includes(scope.channelId);
+  }
+
+  resolve(scope: SettingsScope): ScopeSettings {
+    const defaults: ScopeSettings = {
+      model: config.llm.model,
+      managerRoleIds: config.discord.managerRoleIds,
+      enable4k: config.seerr.enable4k,
+      genreDefaults: config.seerr.genreDefaults,
+      features: DEFAULT_FEATURES,
+      budgets: config.budgets,
+    };
+    const guild = scope.guildId ? this.file.guilds?.[scope.guildId] : undefined;
+    const channel = scope.channelId ? guild?.channels?.[scope.channelId] : undefined;
+    return applyOverrides(applyOverrides(applyOverrides(defaults, this.file), guild), channel);
+  }
+}
+
+export const settings = new SettingsManager(config.settingsFile);
@@ -0,0 +1,42 @@
+import { mkdirSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { config } from "./config.js";
+
+// Small JSON document persisted under DATA_DIR. Writes go through a temp file
+// so a crash mid-write never leaves a truncated file behind.
+export class JsonFileStore<T> {
+  private filePath: string;
+  private data: T;
+
+  constructor(fileName: string, defaults: T) {
+    this.filePath = join(config.storage.dataDir, fileName);
+    this.data = this.load(defaults);
+  }
+
+  get(): T {
+    return this.data;
+  }
+
+  update(mutate: (data: T) => void): void {
+    mutate(this.data);
+    this.save();
+  }
+
+  private load(defaults: T): T {
+    try {
+      return JSON.parse(readFileSync(this.filePath, "utf8")) as T;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        console.error(`Failed to read ${this.filePath}, starting empty:`, error);
+      }
+      return defaults;
+    }
+  }
+
+  private save(): void {
+    mkdirSync(dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.tmp`;
+    writeFileSync(tmpPath, JSON.stringify(this.data, null, 2));
+    renameSync(tmpPath, this.filePath);
+  }
+}
@@ -0,0 +1,56 @@
+import { JsonFileStore } from "./storage.js";
+
+export interface TrackedRequest {
+  requestId: number;
+  tmdbId: number;
+  mediaType: "movie" | "tv";
+  discordId: string;
+  /** Where the request was made; undefined means notify by DM */
+  guildId?: string;
+  channelId?: string;
+  createdAt: number;
+}
+
+const MAX_AGE_MS = 180 * 24 * 60 * 60 * 1000; // 180 days
+
+// Remembers who asked for each Seerr request so status updates can find them
+class RequestTracker {
+  private store = new JsonFileStore<Record<string, TrackedRequest>>("tracked-requests.json", {});
+
+  constructor() {
+    this.prune();
+  }
+
+  track(request: TrackedRequest): void {
+    this.store.update((requests) => {
+      requests[request.requestId] = request;
+    });
+  }
+
+  get(requestId: number): TrackedRequest | undefined {
+    return this.store.get()[requestId];
+  }
+
+  forUser(discordId: string): TrackedRequest[] {
+    return Object.values(this.store.get()).filter((r) => r.discordId === discordId);
+  }
+
+  forget(requestId: number): void {
+    if (!this.get(requestId)) return;
+    this.store.update((requests) => {
+      delete requests[requestId];
+    });
+  }
+
+  private prune(): void {
+    const cutoff = Date.now() - MAX_AGE_MS;
+    const stale = Object.values(this.store.get()).filter((r) => r.createdAt < cutoff);
+    if (stale.length === 0) return;
+
+    this.store.update((requests) => {
+      for (const request of stale) delete requests[request.requestId];
+    });
+  }
+}
+
+export const requestTracker = new RequestTracker();
@@ -77,6 +77,39 @@ export interface MediaInfo {
   status: number;
   status4k: number;
   mediaType: "movie" | "tv";
+  // TV only: availability per season
+  seasons?: {
+    id: number;
+    seasonNumber: number;
+    status: number;
+    status4k: number;
+  }[];
+  requests?: {
+    id: number;
+    status: number;
+    is4k: boolean;
+    seasons?: { seasonNumber: number; status: number }[];
+  }[];
+}
+
+export interface EpisodeInfo {
+  id: number;
+  episodeNumber: number;
+  seasonNumber: number;
+  name: string;
+  airDate?: string | null;
+  overview?: string;
+  voteAverage?: number;
+}
+
+export interface SeasonDetails {
+  id: number;
+  seasonNumber: number;
+  name: string;
+  airDate?: string | null;
+  overview?: string;
+  posterPath?: string | null;
+  episodes: EpisodeInfo[];
 }
 
 export interface RequestResponse {
@@ -115,6 +148,24 @@ export enum RequestStatus {
   COMPLETED = 5,
 }
 
+// User Permission flags (from Seerr)
+export enum Permission {
+  NONE = 0,
+  ADMIN = 2,
+  MANAGE_SETTINGS = 4,
+  MANAGE_USERS = 8,
+  MANAGE_REQUESTS = 16,
+  REQUEST = 32,
+  AUTO_APPROVE = 128,
+  REQUEST_4K = 1024,
+  REQUEST_4K_MOVIE = 2048,
+  REQUEST_4K_TV = 4096,
+  REQUEST_ADVANCED = 8192,
+  REQUEST_VIEW = 16384,
+  REQUEST_MOVIE = 262144,
+  REQUEST_TV = 524288,
+}
+
 // Request List Types
 export interface MediaRequestUser {
   id: number;
@@ -143,6 +194,10 @@ export interface MediaRequestItem {
     name?: string;
     releaseDate?: string;
     firstAirDate?: string;
+    seasons?: {
+      seasonNumber: number;
+      status: number;
+    }[];
   };
   requestedBy: MediaRequestUser;
   modifiedBy?: MediaRequestUser;
@@ -153,23 +208,141 @@ export interface MediaRequestItem {
   }[];
 }
 
+export interface PageInfo {
+  pages: number;
+  page: number;
+  results: number;
+  pageSize: number;
+}
+
 export interface RequestListResponse {
-  pageInfo: {
-    pages: number;
-    page: number;
-    results: number;
-    pageSize: number;
-  };
+  pageInfo: PageInfo;
   results: MediaRequestItem[];
 }
 
+export interface RequestListOptions {
+  filter?: RequestFilter;
+  take?: number;
+  skip?: number;
+  /** Sort by creation ("added") or last change ("modified") */
+  sort?: "added" | "modified";
+  sortDirection?: "asc" | "desc";
+  /** Only requests made by this Seerr user */
+  requestedBy?: number;
+  mediaType?: "movie" | "tv";
+}
+
+export interface RequestOptions {
+  /** Seerr user the request is filed on behalf of (defaults to the API key owner) */
+  userId?: number;
+  /** Request from the 4K servers instead of the regular ones */
+  is4k?: boolean;
+  // Radarr/Sonarr overrides; Seerr uses the server defaults when omitted
+  serverId?: number;
+  profileId?: number;
+  rootFolder?: string;
+  languageProfileId?: number;
+  tags?: number[];
+}
+
+// Radarr/Sonarr choices by name, as users (and config) refer to them
+export interface RequestOverrides {
+  server?: string;
+  profile?: string;
+  rootFolder?: string;
+  tags?: string[];
+}
+
 export type RequestFilter =
+  | "all"
   | "pending"
   | "approved"
   | "processing"
   | "available"
   | "failed";
 
+// User Types
+
+export interface SeerrUser {
+  id: number;
+  email: string;
+  username?: string;
+  plexUsername?: string;
+  displayName: string;
+  permissions: number;
+  userType: number;
+  requestCount?: number;
+  settings?: {
+    discordId?: string;
+  };
+}
+
+export interface UserListResponse {
+  pageInfo: PageInfo;
+  results: SeerrUser[];
+}
+
+export interface QuotaStatus {
+  /** Length of the rolling window in days */
+  days?: number;
+  /** Requests allowed per window; 0 or missing means unlimited */
+  limit?: number;
+  used: number;
+  remaining?: number;
+  restricted: boolean;
+}
+
+// TV quotas count seasons, not requests
+export interface UserQuota {
+  movie: QuotaStatus;
+  tv: QuotaStatus;
+}
+
+export interface UserNotificationSettings {
+  discordEnabled?: boolean;
+  discordId?: string;
+}
+
+// Radarr/Sonarr Service Types
+
+export interface ServiceServer {
+  id: number;
+  name: string;
+  is4k: boolean;
+  isDefault: boolean;
+  activeDirectory: string;
+  activeProfileId: number;
+  activeTags?: number[];
+  activeAnimeDirectory?: string;
+  activeAnimeProfileId?: number;
+  activeLanguageProfileId?: number;
+}
+
+export interface ServiceProfile {
+  id: number;
+  name: string;
+}
+
+export interface ServiceRootFolder {
+  id: number;
+  path: string;
+  freeSpace: number;
+}
+
+export interface ServiceTag {
+  id: number;
+  label: string;
+}
+
+export interface ServiceDetails {
+  server: ServiceServer;
+  profiles: ServiceProfile[];
+  rootFolders: ServiceRootFolder[];
+  tags: ServiceTag[];
+  // Sonarr v3 only
+  languageProfiles?: ServiceProfile[] | null;
+}
+
 // OMDb API Types
 
 export interface OmdbSearchResult {
@@ -272,3 +445,101 @@ export interface RatingsResponse {
   rt?: RTRating;
   imdb?: IMDBRating;
 }
+
+// Webhook Types (Seerr's default JSON payload template)
+
+export type WebhookNotificationType =
+  | "TEST_NOTIFICATION"
+  | "MEDIA_PENDING"
+  | "MEDIA_APPROVED"
+  | "MEDIA_AUTO_APPROVED"
+  | "MEDIA_AVAILABLE"
+  | "MEDIA_DECLINED"
+  | "MEDIA_FAILED"
+  | "MEDIA_AUTO_REQUESTED";
+
+export interface WebhookPayload {
+  notification_type: WebhookNotificationType | string;
+  event?: string;
+  subject: string;
+  message?: string;
+  image?: string;
+  media?: {
+    media_type: "movie" | "tv";
+    tmdbId: string;
+    tvdbId?: string;
+    status: string;
+    status4k: string;
+  } | null;
+  request?: {
+    request_id: string;
+    requestedBy_email?: string;
+    requestedBy_username?: string;
+    requestedBy_settings_discordId?: string;
+  } | null;
+  extra?: { name: string; value: string }[];
+}
+
+// LLM Types (provider-neutral; blocks keep the Anthropic shape so stored
+// conversations stay readable whichever provider is configured)
+
+export interface TextBlock {
+  type: "text";
+  text: string;
+}
+
+export interface ToolCallBlock {
+  type: "tool_use";
+  id: string;
+  name: string;
+  input: Record<string, unknown>;
+}
+
+export interface ToolResultBlock {
+  type: "tool_result";
+  tool_use_id: string;
+  content: string;
+}
+
+export type ContentBlock = TextBlock | ToolCallBlock | ToolResultBlock;
+
+export interface ChatMessage {
+  role: "user" | "assistant";
+  content: string | ContentBlock[];
+}
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  /** JSON Schema of the tool's input object */
+  inputSchema: {
+    type: "object";
+    properties: Record<string, unknown>;
+    required?: string[];
+  };
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface ChatRequest {
+  model: string;
+  system: string;
+  tools: ToolDefinition[];
+  messages: ChatMessage[];
+  maxTokens: number;
+  /** Called with each piece of reply text as it streams in */
+  onText?: (delta: string) => void;
+}
+
+export interface ChatResponse {
+  content: (TextBlock | ToolCallBlock)[];
+  stopReason: "end_turn" | "tool_use" | "max_tokens";
+  usage: TokenUsage;
+}
+
+export interface LlmProvider {
+  chat(request: ChatRequest): Promise<ChatResponse>;
+}
@@ -0,0 +1,167 @@
+import { JsonFileStore } from "./storage.js";
+import type { RequesterContext } from "./agent/index.js";
+import type { ScopeSettings } from "./settings.js";
+import type { TokenUsage } from "./types/index.js";
+
+export interface TokenCounts {
+  inputTokens: number;
+  outputTokens: number;
+  calls: number;
+}
+
+interface GuildUsage {
+  users: Record<string, TokenCounts>;
+  models: Record<string, TokenCounts>;
+}
+
+// Keyed by UTC date (YYYY-MM-DD), then guild ID ("dm" for direct messages)
+type UsageData = Record<string, Record<string, GuildUsage>>;
+
+const MAX_AGE_DAYS = 90;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DM_KEY = "dm";
+const TOP_USERS = 5;
+
+const BUDGET_FALLBACK =
+  "Slash commands like /request, /search and /myrequests still work. The budget resets at midnight UTC.";
+
+function utcDate(daysAgo = 0): string {
+  return new Date(Date.now() - daysAgo * DAY_MS).toISOString().slice(0, 10);
+}
+
+function emptyCounts(): TokenCounts {
+  return { inputTokens: 0, outputTokens: 0, calls: 0 };
+}
+
+function totalTokens(counts: TokenCounts): number {
+  return counts.inputTokens + counts.outputTokens;
+}
+
+function addCounts(sum: TokenCounts, counts: TokenCounts): void {
+  sum.inputTokens += counts.inputTokens;
+  sum.outputTokens += counts.outputTokens;
+  sum.calls += counts.calls;
+}
+
+function addTo(target: Record<string, TokenCounts>, key: string, counts: TokenCounts): void {
+  addCounts((target[key] ??= emptyCounts()), counts);
+}
+
+function sumCounts(counts: TokenCounts[]): TokenCounts {
+  const total = emptyCounts();
+  for (const c of counts) addCounts(total, c);
+  return total;
+}
+
+function formatCounts(counts: TokenCounts): string {
+  const input = counts.inputTokens.toLocaleString("en-US");
+  const output = counts.outputTokens.toLocaleString("en-US");
+  return `${input} in / ${output} out (${counts.calls} calls)`;
+}
+
+// Daily token totals per guild, user and model, kept for 90 days
+class UsageTracker {
+  private store = new JsonFileStore<UsageData>("usage.json", {});
+
+  constructor() {
+    this.prune();
+  }
+
+  record(requester: RequesterContext, model: string, usage: TokenUsage): void {
+    const counts = { inputTokens: usage.inputTokens, outputTokens: usage.outputTokens, calls: 1 };
+    this.store.update((days) => {
+      const guilds = (days[utcDate()] ??= {});
+      const guild = (guilds[requester.guildId ?? DM_KEY] ??= { users: {}, models: {} });
+      addTo(guild.users, requester.discordId, counts);
+      addTo(guild.models, model, counts);
+    });
+    console.log(
+      `Tokens for ${requester.discordTag}: ${usage.inputTokens} in, ${usage.outputTokens} out (${model})`
+    );
+  }
+
+  // Returns a reply for the user when a daily budget is used up, or null
+  checkBudget(requester: RequesterContext, scope: ScopeSettings): string | null {
+    const { userDailyTokens, guildDailyTokens } = scope.budgets;
+    const guilds = this.store.get()[utcDate()] ?? {};
+
+    if (guildDailyTokens && requester.guildId) {
+      const guild = guilds[requester.guildId];
+      const used = guild ? totalTokens(sumCounts(Object.values(guild.models))) : 0;
+      if (used >= guildDailyTokens) {
+        return `This server has used up today's assistant budget. ${BUDGET_FALLBACK}`;
+      }
+    }
+
+    // A user's budget covers every server they talk to the bot in
+    if (userDailyTokens) {
+      const used = totalTokens(
+        sumCounts(Object.values(guilds).flatMap((guild) => guild.users[requester.discordId] ?? []))
+      );
+      if (used >= userDailyTokens) {
+        return `You've used up today's assistant budget. ${BUDGET_FALLBACK}`;
+      }
+    }
+    return null;
+  }
+
+  // Totals for the last `days` days, for one guild or (without one) all of them
+  formatReport(days: number, guildId?: string): string {
+    const since = utcDate(days - 1);
+    const dates = Object.keys(this.store.get())
+      .filter((date) => date >= since)
+      .sort()
+      .reverse();
+
+    const guildsOn = (date: string): GuildUsage[] => {
+      const guilds = this.store.get()[date];
+      return guildId ? (guilds[guildId] ? [guilds[guildId]] : []) : Object.values(guilds);
+    };
+
+    const byDate: [string, TokenCounts][] = [];
+    const byUser: Record<string, TokenCounts> = {};
+    const byModel: Record<string, TokenCounts> = {};
+    for (const date of dates) {
+      const guilds = guildsOn(date);
+      if (guilds.length === 0) continue;
+      byDate.push([date, sumCounts(guilds.flatMap((guild) => Object.values(guild.models)))]);
+      for (const guild of guilds) {
+        for (const [userId, counts] of Object.entries(guild.users)) addTo(byUser, userId, counts);
+        for (const [model, counts] of Object.entries(guild.models)) addTo(byModel, model, counts);
+      }
+    }
+
+    const where = guildId ? "this server" : "all servers and DMs";
+    if (byDate.length === 0) {
+      return `No token usage recorded in ${where} over the last ${days} days.`;
+    }
+
+    const lines = [`Token usage in ${where}, last ${days} days (UTC):`];
+    for (const [date, counts] of byDate) lines.push(`${date}: ${formatCounts(counts)}`);
+    lines.push(`Total: ${formatCounts(sumCounts(byDate.map(([, counts]) => counts)))}`);
+
+    lines.push("", "Top users:");
+    const topUsers = Object.entries(byUser)
+      .sort(([, a], [, b]) => totalTokens(b) - totalTokens(a))
+      .slice(0, TOP_USERS);
+    for (const [userId, counts] of topUsers) lines.push(`<@${userId}>: ${formatCounts(counts)}`);
+
+    lines.push("", "By model:");
+    for (const [model, counts] of Object.entries(byModel)) {
+      lines.push(`${model}: ${formatCounts(counts)}`);
+    }
+    return lines.join("\n");
+  }
+
+  private prune(): void {
+    const cutoff = utcDate(MAX_AGE_DAYS);
+    const stale = Object.keys(this.store.get()).filter((date) => date < cutoff);
+    if (stale.length === 0) return;
+
+    this.store.update((days) => {
+      for (const date of stale) delete days[date];
+    });
+  }
+}
+
+export const usageTracker = new UsageTracker();
@@ -0,0 +1,146 @@
+import { seerr } from "./services/seerr.js";
+import { JsonFileStore } from "./storage.js";
+import type { SeerrUser } from "./types/index.js";
+
+const INDEX_REFRESH_MS = 10 * 60 * 1000; // 10 minutes
+const USER_PAGE_SIZE = 100;
+const SETTINGS_FETCH_CONCURRENCY = 5;
+
+export function getSeerrUserName(user: SeerrUser): string {
+  return user.displayName || user.username || user.plexUsername || user.email.split("@")[0];
+}
+
+class UserLinkManager {
+  // Manual links set by admins: Discord user ID -> Seerr user ID
+  private manualLinks = new JsonFileStore<Record<string, number>>("user-links.json", {});
+
+  // Seerr users keyed by ID, and by the Discord ID in their notification settings
+  private usersById = new Map<number, SeerrUser>();
+  private usersByDiscordId = new Map<string, SeerrUser>();
+  private lastRefresh = 0;
+  private pendingRefresh: Promise<void> | null = null;
+
+  async resolve(discordId: string): Promise<SeerrUser | undefined> {
+    try {
+      await this.ensureIndex();
+
+      const linkedId = this.manualLinks.get()[discordId];
+      if (linkedId !== undefined) {
+        return this.usersById.get(linkedId) ?? (await seerr.getUser(linkedId));
+      }
+
+      return this.usersByDiscordId.get(discordId);
+    } catch (error) {
+      console.error(`Failed to resolve Seerr user for Discord user ${discordId}:`, error);
+      return undefined;
+    }
+  }
+
+  // Link a Discord user to a Seerr user by ID, username, display name or email
+  async link(discordId: string, identifier: string): Promise<SeerrUser> {
+    await this.refreshIndex();
+
+    const user = this.findUser(identifier.trim());
+    if (!user) {
+      throw new Error(`No Seerr user matches "${identifier}".`);
+    }
+
+    this.manualLinks.update((links) => {
+      links[discordId] = user.id;
+    });
+    return user;
+  }
+
+  unlink(discordId: string): boolean {
+    if (this.manualLinks.get()[discordId] === undefined) {
+      return false;
+    }
+    this.manualLinks.update((links) => {
+      delete links[discordId];
+    });
+    return true;
+  }
+
+  private findUser(identifier: string): SeerrUser | undefined {
+    if (/^\d+$/.test(identifier)) {
+      return this.usersById.get(Number(identifier));
+    }
+
+    const needle = identifier.toLowerCase();
+    for (const user of this.usersById.values()) {
+      const candidates = [user.email, user.username, user.plexUsername, user.displayName];
+      if (candidates.some((c) => c?.toLowerCase() === needle)) {
+        return user;
+      }
+    }
+    return undefined;
+  }
+
+  private async ensureIndex(): Promise<void> {
+    if (Date.now() - this.lastRefresh > INDEX_REFRESH_MS) {
+      await this.refreshIndex();
+    }
+  }
+
+  private refreshIndex(): Promise<void> {
+    // Share one in-flight refresh between concurrent callers
+    if (!this.pendingRefresh) {
+      this.pendingRefresh = this.loadUsers().finally(() => {
+        this.pendingRefresh = null;
+      });
+    }
+    return this.pendingRefresh;
+  }
+
+  private async loadUsers(): Promise<void> {
+    const users: SeerrUser[] = [];
+    for (let skip = 0; ; skip += USER_PAGE_SIZE) {
+      const page = await seerr.listUsers(USER_PAGE_SIZE, skip);
+      users.push(...page.results);
+      if (page.results.length < USER_PAGE_SIZE) break;
+    }
+
+    const byId = new Map<number, SeerrUser>();
+    const byDiscordId = new Map<string, SeerrUser>();
+
+    const unmatched: SeerrUser[] = [];
+    for (const user of users) {
+      byId.set(user.id, user);
+      const discordId = user.settings?.discordId;
+      if (discordId) {
+        byDiscordId.set(discordId, user);
+      } else {
+        unmatched.push(user);
+      }
+    }
+
+    // Fall back to notification settings, a few users at a time so big instances
+    // don't get one request per user all at once
+    let next = 0;
+    const worker = async () => {
+      while (next < unmatched.length) {
+        const user = unmatched[next++];
+        const discordId = await this.fetchDiscordId(user.id);
+        if (discordId) {
+          byDiscordId.set(discordId, user);
+        }
+      }
+    };
+    await Promise.all(Array.from({ length: SETTINGS_FETCH_CONCURRENCY }, worker));
+
+    this.usersById = byId;
+    this.usersByDiscordId = byDiscordId;
+    this.lastRefresh = Date.now();
+  }
+
+  private async fetchDiscordId(userId: number): Promise<string | undefined> {
+    try {
+      const settings = await seerr.getUserNotificationSettings(userId);
+      return settings.discordId || undefined;
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+export const userLinks = new UserLinkManager();
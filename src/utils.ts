@@ -1,5 +1,5 @@
 import { MediaStatus, RequestStatus } from "./types/index.js";
-import type { DiscoverResult } from "./types/index.js";
+import type { DiscoverResult, MediaRequestUser, TvDetails } from "./types/index.js";
 import { TMDB_IMAGE_BASE } from "./constants.js";
 
 export function getMediaStatusText(status: number): string {
@@ -19,6 +19,46 @@ export function getMediaStatusText(status: number): string {
   }
 }
 
+// Status of each regular season (specials excluded), in HD or 4K. Seasons only
+// covered by a pending request show as Pending, the rest default to Unknown.
+export function getSeasonStatuses(tv: TvDetails, is4k = false): Map<number, number> {
+  const statuses = new Map<number, number>();
+  for (const season of tv.seasons) {
+    if (season.seasonNumber > 0) statuses.set(season.seasonNumber, MediaStatus.UNKNOWN);
+  }
+
+  for (const request of tv.mediaInfo?.requests ?? []) {
+    if (request.is4k !== is4k || request.status !== RequestStatus.PENDING) continue;
+    for (const season of request.seasons ?? []) {
+      if (statuses.has(season.seasonNumber)) {
+        statuses.set(season.seasonNumber, MediaStatus.PENDING);
+      }
+    }
+  }
+
+  for (const season of tv.mediaInfo?.seasons ?? []) {
+    const status = is4k ? season.status4k : season.status;
+    if (statuses.has(season.seasonNumber) && status !== MediaStatus.UNKNOWN) {
+      statuses.set(season.seasonNumber, status);
+    }
+  }
+  return statuses;
+}
+
+// Seasons that have started airing but are neither in the library nor already
+// requested. Announced seasons without an air date, or one still ahead, don't count.
+export function getMissingSeasons(tv: TvDetails, is4k = false, now = new Date()): number[] {
+  const aired = new Set(
+    tv.seasons
+      .filter((s) => s.airDate && new Date(s.airDate) <= now)
+      .map((s) => s.seasonNumber)
+  );
+  return [...getSeasonStatuses(tv, is4k)]
+    .filter(([seasonNumber, status]) => status === MediaStatus.UNKNOWN && aired.has(seasonNumber))
+    .map(([seasonNumber]) => seasonNumber)
+    .sort((a, b) => a - b);
+}
+
 export function getRequestStatusText(status: RequestStatus): string {
   switch (status) {
     case RequestStatus.PENDING:
@@ -36,6 +76,10 @@ export function getRequestStatusText(status: RequestStatus): string {
   }
 }
 
+export function getRequesterName(user: MediaRequestUser): string {
+  return user.displayName || user.username || user.email.split("@")[0];
+}
+
 export function formatErrorMessage(error: unknown): string {
   return error instanceof Error ? error.message : "Unknown error";
 }
@@ -0,0 +1,70 @@
+// Checks for settings read from JSON (the config file and JSON environment
+// variables). They collect every problem so a broken value can be fixed in one go.
+
+export function isObject(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+export function checkObject(
+  value: unknown,
+  path: string,
+  keys: string[] | null,
+  errors: string[]
+): value is Record<string, unknown> {
+  if (!isObject(value)) {
+    errors.push(`${path} must be an object`);
+    return false;
+  }
+  for (const key of Object.keys(value)) {
+    if (keys && !keys.includes(key)) {
+      errors.push(`${path}.${key} is not a known setting`);
+    }
+  }
+  return true;
+}
+
+export function checkString(value: unknown, path: string, errors: string[]): void {
+  if (value !== undefined && (typeof value !== "string" || !value.trim())) {
+    errors.push(`${path} must be a non-empty string`);
+  }
+}
+
+export function checkBoolean(value: unknown, path: string, errors: string[]): void {
+  if (value !== undefined && typeof value !== "boolean") {
+    errors.push(`${path} must be true or false`);
+  }
+}
+
+export function checkStringList(value: unknown, path: string, errors: string[]): void {
+  if (value === undefined) return;
+  if (!Array.isArray(value) || value.some((item) => typeof item !== "string" || !item.trim())) {
+    errors.push(`${path} must be a list of strings`);
+  }
+}
+
+// Discord IDs are numeric strings; numbers lose precision past 2^53
+export function checkIdList(value: unknown, path: string, errors: string[]): void {
+  if (value === undefined) return;
+  if (!Array.isArray(value) || value.some((id) => typeof id !== "string" || !/^\d+$/.test(id))) {
+    errors.push(`${path} must be a list of Discord IDs as strings, e.g. ["123456789012345678"]`);
+  }
+}
+
+export function checkIdKeys(value: Record<string, unknown>, path: string, errors: string[]): void {
+  for (const id of Object.keys(value)) {
+    if (!/^\d+$/.test(id)) errors.push(`${path}.${id} must be keyed by a Discord ID`);
+  }
+}
+
+export function checkGenreDefaults(value: unknown, path: string, errors: string[]): void {
+  if (value === undefined || !checkObject(value, path, null, errors)) return;
+  for (const [genre, overrides] of Object.entries(value)) {
+    const genrePath = `${path}.${genre}`;
+    const keys = ["server", "profile", "rootFolder", "tags"];
+    if (!checkObject(overrides, genrePath, keys, errors)) continue;
+    checkString(overrides.server, `${genrePath}.server`, errors);
+    checkString(overrides.profile, `${genrePath}.profile`, errors);
+    checkString(overrides.rootFolder, `${genrePath}.rootFolder`, errors);
+    checkStringList(overrides.tags, `${genrePath}.tags`, errors);
+  }
+}
@@ -0,0 +1,177 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import { createServer, type IncomingMessage, type Server } from "node:http";
+import { EmbedBuilder, type Client } from "discord.js";
+import { config } from "./config.js";
+import { requestTracker, type TrackedRequest } from "./tracking.js";
+import { approvalQueue } from "./queue.js";
+import { invalidateMedia } from "./cache.js";
+import type { WebhookPayload } from "./types/index.js";
+
+const MAX_BODY_BYTES = 1024 * 1024;
+
+interface NotificationStyle {
+  verb: string;
+  color: number;
+  /** Whether the request is finished and no longer needs tracking */
+  final: boolean;
+}
+
+// Events the requester is told about. MEDIA_PENDING is skipped since the
+// bot already confirmed the request when it was made.
+const NOTIFICATION_STYLES: Record<string, NotificationStyle> = {
+  MEDIA_APPROVED: { verb: "was approved", color: 0x5865f2, final: false },
+  MEDIA_AUTO_APPROVED: { verb: "was approved", color: 0x5865f2, final: false },
+  MEDIA_DECLINED: { verb: "was declined", color: 0xed4245, final: true },
+  MEDIA_FAILED: { verb: "failed to process", color: 0xed4245, final: false },
+  MEDIA_AVAILABLE: { verb: "is now available", color: 0x57f287, final: true },
+};
+
+// Seerr sends the configured secret verbatim in the Authorization header.
+// Hash both sides so the comparison is constant-time regardless of length.
+function isAuthorized(req: IncomingMessage): boolean {
+  const provided = req.headers.authorization ?? "";
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(digest(provided), digest(config.webhook.secret));
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error("Webhook payload too large"));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+    req.on("error", reject);
+  });
+}
+
+function buildNotificationEmbed(payload: WebhookPayload, style: NotificationStyle): EmbedBuilder {
+  const embed = new EmbedBuilder()
+    .setTitle(`${payload.subject} ${style.verb}`.slice(0, 256))
+    .setColor(style.color)
+    .setTimestamp();
+
+  if (payload.message) {
+    embed.setDescription(payload.message.slice(0, 4096));
+  }
+  if (payload.image) {
+    embed.setThumbnail(payload.image);
+  }
+  if (payload.media) {
+    embed.setURL(`https://www.themoviedb.org/${payload.media.media_type}/${payload.media.tmdbId}`);
+  }
+  return embed;
+}
+
+async function deliver(
+  client: Client,
+  discordId: string,
+  tracked: TrackedRequest | undefined,
+  embed: EmbedBuilder
+): Promise<void> {
+  // Answer in the channel the request was made in, falling back to a DM
+  if (tracked?.guildId && tracked.channelId) {
+    try {
+      const channel = await client.channels.fetch(tracked.channelId);
+      if (channel?.isSendable()) {
+        await channel.send({ content: `<@${discordId}>`, embeds: [embed] });
+        return;
+      }
+    } catch (error) {
+      console.error(`Could not notify in channel ${tracked.channelId}, falling back to DM:`, error);
+    }
+  }
+
+  const user = await client.users.fetch(discordId);
+  await user.send({ embeds: [embed] });
+}
+
+// Keep the approval queue in step with changes made in Seerr itself
+async function syncApprovalQueue(payload: WebhookPayload, requestId: number): Promise<void> {
+  switch (payload.notification_type) {
+    case "MEDIA_PENDING":
+      await approvalQueue.enqueue(requestId);
+      break;
+    case "MEDIA_APPROVED":
+    case "MEDIA_AUTO_APPROVED":
+      await approvalQueue.resolve(requestId, "approved", "Seerr");
+      break;
+    case "MEDIA_DECLINED":
+      await approvalQueue.resolve(requestId, "declined", "Seerr");
+      break;
+  }
+}
+
+export async function handleWebhookPayload(client: Client, payload: WebhookPayload): Promise<void> {
+  // Status changed in Seerr, so cached details for this title are out of date
+  if (payload.media) {
+    invalidateMedia(payload.media.media_type, Number(payload.media.tmdbId));
+  }
+
+  const requestId = Number(payload.request?.request_id);
+  if (requestId) {
+    await syncApprovalQueue(payload, requestId).catch((error) => {
+      console.error(`Failed to sync approval queue for request #${requestId}:`, error);
+    });
+  }
+
+  const style = NOTIFICATION_STYLES[payload.notification_type];
+  if (!style) return;
+
+  const tracked = requestId ? requestTracker.get(requestId) : undefined;
+
+  // Requests made outside the bot can still reach users who set their Discord ID in Seerr
+  const discordId = tracked?.discordId ?? payload.request?.requestedBy_settings_discordId;
+  if (!discordId) return;
+
+  await deliver(client, discordId, tracked, buildNotificationEmbed(payload, style));
+  console.log(`Sent ${payload.notification_type} notification for request #${requestId} to ${discordId}`);
+
+  if (style.final && tracked) {
+    requestTracker.forget(requestId);
+  }
+}
+
+export function startWebhookServer(client: Client): Server | undefined {
+  const { port } = config.webhook;
+  if (!port) return undefined;
+
+  const server = createServer(async (req, res) => {
+    if (req.method !== "POST" || req.url !== "/webhook") {
+      res.writeHead(404).end();
+      return;
+    }
+    if (!isAuthorized(req)) {
+      res.writeHead(401).end();
+      return;
+    }
+
+    let payload: WebhookPayload;
+    try {
+      payload = JSON.parse(await readBody(req));
+    } catch (error) {
+      console.error("Rejected webhook payload:", error);
+      res.writeHead(400).end();
+      return;
+    }
+
+    // Acknowledge right away; Seerr doesn't need to wait on Discord
+    res.writeHead(204).end();
+
+    handleWebhookPayload(client, payload).catch((error) => {
+      console.error(`Failed to handle ${payload.notification_type} webhook:`, error);
+    });
+  });
+
+  server.listen(port, () => {
+    console.log(`Webhook listener on port ${port}`);
+  });
+  return server;
+}
@@ -0,0 +1,263 @@
+import { fakeAnthropic, fakeOmdb, fakeSeerr, stopFakes } from "./helpers/setup.js";
+import assert from "node:assert/strict";
+import { writeFileSync } from "node:fs";
+import { after, beforeEach, describe, it } from "node:test";
+import type { AgentProgress, RequesterContext } from "../src/agent/index.js";
+
+// Loaded after setup so config sees the fakes' URLs; a static import would be
+// evaluated while setup is still waiting for the servers to start
+const {
+  createResponseActions,
+  formatToolOutputForUser,
+  handleToolCall,
+  parseYearFromQuery,
+  processMediaRequest,
+} = await import("../src/agent/index.js");
+const { buildResponseMessages } = await import("../src/formatting.js");
+const { settings } = await import("../src/settings.js");
+const { Permission } = await import("../src/types/index.js");
+
+const requester: RequesterContext = {
+  discordId: "1001",
+  discordTag: "tester",
+  roleIds: [],
+};
+
+after(stopFakes);
+
+beforeEach(() => {
+  fakeSeerr.requests.length = 0;
+  fakeOmdb.requests.length = 0;
+});
+
+describe("parseYearFromQuery", () => {
+  for (const [query, title, year] of [
+    ["Severance (2022)", "Severance", "2022"],
+    ["Severance [2022]", "Severance", "2022"],
+    ["Severance - 2022", "Severance", "2022"],
+    ["Severance 2022", "Severance", "2022"],
+    ["Severance", "Severance", undefined],
+  ] as const) {
+    it(`parses "${query}"`, () => {
+      assert.deepEqual(parseYearFromQuery(query), year ? { title, year } : { title });
+    });
+  }
+});
+
+describe("tool dispatch", () => {
+  it("searches without the year and lists movies and shows only", async () => {
+    const actions = createResponseActions();
+    const result = await handleToolCall("search_media", { query: "Severance 2022" }, requester, actions);
+
+    const [search] = fakeSeerr.calls("GET", "/api/v1/search");
+    assert.equal(search.query.get("query"), "Severance");
+    assert.equal(search.headers["x-api-key"], "test-seerr-key");
+
+    assert.ok(result.includes("(prioritizing 2022)"));
+    assert.ok(result.includes("1. Severance (2022) - TV - TMDB:95396"));
+    assert.ok(!result.includes("Severance Person"));
+    assert.deepEqual(
+      actions.choices.map((c) => c.tmdbId),
+      [95396, 4215]
+    );
+  });
+
+  it("requests only the missing seasons of a partially available show", async () => {
+    const result = await handleToolCall(
+      "request_media",
+      { tmdbId: 95396, mediaType: "tv", missingOnly: true },
+      requester
+    );
+
+    const [request] = fakeSeerr.calls("POST", "/api/v1/request");
+    assert.deepEqual(request.body.seasons, [2]);
+    assert.equal(request.body.mediaType, "tv");
+    assert.equal(request.body.is4k, false);
+    assert.ok(result.includes("Seasons requested: 2"));
+  });
+
+  it("works out missing seasons from 4K availability for 4K requests", async () => {
+    writeFileSync(process.env.CONFIG_FILE!, JSON.stringify({ requests: { enable4k: true } }));
+    settings.reload();
+    const seerrUser = {
+      id: 7,
+      email: "mark@lumon.example",
+      displayName: "Mark S.",
+      permissions: Permission.REQUEST | Permission.REQUEST_4K_TV,
+      userType: 1,
+    };
+    try {
+      await handleToolCall(
+        "request_media",
+        { tmdbId: 95396, mediaType: "tv", missingOnly: true, is4k: true },
+        { ...requester, seerrUser }
+      );
+    } finally {
+      writeFileSync(process.env.CONFIG_FILE!, "{}");
+      settings.reload();
+    }
+
+    // Season 1 is only in the library in HD
+    const [request] = fakeSeerr.calls("POST", "/api/v1/request");
+    assert.deepEqual(request.body.seasons, [1, 2]);
+    assert.equal(request.body.is4k, true);
+  });
+
+  it("refuses to request a TV show without seasons", async () => {
+    const result = await handleToolCall("request_media", { tmdbId: 95396, mediaType: "tv" }, requester);
+    assert.ok(result.startsWith("Error: For TV shows"));
+    assert.equal(fakeSeerr.calls("POST", "/api/v1/request").length, 0);
+  });
+
+  it("verifies titles against OMDb", async () => {
+    const result = await handleToolCall("verify_imdb", { imdbId: "tt11280740" }, requester);
+
+    const [lookup] = fakeOmdb.calls("GET", "/");
+    assert.equal(lookup.query.get("apikey"), "test-omdb-key");
+    assert.ok(result.includes("Title: Severance (2022–)"));
+    assert.ok(result.includes("Rating: 8.7/10"));
+  });
+
+  it("reports OMDb outages instead of crashing on non-JSON errors", async () => {
+    fakeOmdb.on("GET", "/", {
+      status: 502,
+      body: "<html>Bad Gateway</html>",
+      contentType: "text/html",
+    });
+    const result = await handleToolCall("verify_imdb", { imdbId: "tt0000001" }, requester);
+    assert.ok(result.startsWith("Error: OMDb API error (502)"), result);
+  });
+
+  it("turns Seerr 404s into a hint rather than a raw error", async () => {
+    const result = await handleToolCall("get_media_details", { tmdbId: 1, mediaType: "movie" }, requester);
+    assert.ok(result.includes("Seerr could not find that"), result);
+  });
+
+  it("fills pages of trending movies from further Seerr pages", async () => {
+    // Three Seerr pages of 20, with 10 movies on each between shows and people
+    fakeSeerr.on("GET", "/api/v1/discover/trending", (request) => {
+      const page = Number(request.query.get("page"));
+      const results = Array.from({ length: 20 }, (_, i) => {
+        const mediaType = i % 2 === 0 ? "movie" : i % 4 === 1 ? "tv" : "person";
+        return { id: page * 100 + i, mediaType, title: `Title ${page * 100 + i}`, overview: "" };
+      });
+      return { body: { page, totalPages: 3, totalResults: 60, results } };
+    });
+
+    const actions = createResponseActions();
+    const second = await handleToolCall(
+      "discover_trending",
+      { mediaType: "movie", page: 2 },
+      requester,
+      actions
+    );
+    assert.equal(actions.choices.length, 10);
+    assert.ok(actions.choices.every((c) => c.mediaType === "movie"));
+    assert.ok(second.startsWith("Trending now (page 2):\n\n11. Title 200"), second);
+    assert.ok(second.includes("20. Title 218"));
+    assert.deepEqual(actions.list, {
+      tool: "discover_trending",
+      input: { mediaType: "movie" },
+      page: 2,
+      hasMore: true,
+    });
+
+    const input = { mediaType: "movie", page: 3 };
+    const last = await handleToolCall("discover_trending", input, requester, actions);
+    assert.ok(last.includes("21. Title 300"));
+    assert.equal(actions.list?.hasMore, false);
+  });
+});
+
+describe("formatToolOutputForUser", () => {
+  it("drops TMDB IDs and next_page hints meant for the model", async () => {
+    const search = await handleToolCall("search_media", { query: "Severance" }, requester);
+    assert.equal(
+      formatToolOutputForUser(search).split("\n")[2],
+      "1. Severance (2022) - TV - https://www.themoviedb.org/tv/95396"
+    );
+
+    const trending = await handleToolCall("discover_trending", { mediaType: "movie" }, requester);
+    assert.ok(trending.includes("next_page"), trending);
+    assert.ok(!formatToolOutputForUser(trending).includes("next_page"));
+  });
+
+  it("drops tool names from error hints", async () => {
+    const output = await handleToolCall("get_media_details", { tmdbId: 1, mediaType: "movie" }, requester);
+    assert.equal(formatToolOutputForUser(output), "Error: Seerr could not find that.");
+  });
+});
+
+describe("processMediaRequest", () => {
+  it("runs the tool loop from search to request and formats the reply", async () => {
+    fakeAnthropic.script(
+      { toolUses: [{ name: "search_media", input: { query: "Severance" } }] },
+      { toolUses: [{ name: "get_media_details", input: { tmdbId: 95396, mediaType: "tv" } }] },
+      {
+        text: "Season 2 is missing, requesting it.",
+        toolUses: [{ name: "request_media", input: { tmdbId: 95396, mediaType: "tv", seasons: [2] } }],
+      },
+      {
+        text: "Requested **Severance** season 2.\n[POSTER:https://image.tmdb.org/t/p/w342/pPHpeI2X1qEd1CS1SeyrdhZ4qnT.jpg]",
+      }
+    );
+
+    const response = await processMediaRequest("get me the latest season of Severance", requester);
+
+    assert.equal(fakeAnthropic.remainingTurns, 0);
+    assert.deepEqual(
+      fakeSeerr.requests.map((r) => `${r.method} ${r.path}`),
+      ["GET /api/v1/search", "GET /api/v1/tv/95396", "POST /api/v1/request"]
+    );
+    assert.deepEqual(fakeSeerr.calls("POST", "/api/v1/request")[0].body.seasons, [2]);
+
+    // The request's outcome went back to the model as a tool result
+    const [toolResult] = fakeAnthropic.lastToolResults();
+    assert.ok(toolResult.content.includes("TV show request submitted successfully!"));
+
+    // The conversation keeps the user turn, three tool rounds and the final answer
+    assert.equal(response.messages.length, 8);
+    assert.equal(response.messages[0].content, "get me the latest season of Severance");
+
+    const [message] = buildResponseMessages(response.result);
+    const embed = message.embeds![0].toJSON();
+    assert.equal(embed.description, "Requested **Severance** season 2.");
+    assert.ok(embed.thumbnail?.url.endsWith("/pPHpeI2X1qEd1CS1SeyrdhZ4qnT.jpg"));
+  });
+
+  it("reports tool progress and streams the reply text", async () => {
+    fakeAnthropic.script(
+      { text: "Let me look.", toolUses: [{ name: "search_media", input: { query: "Severance" } }] },
+      { text: "Found **Severance** (2022), want me to request it?" }
+    );
+    const updates: AgentProgress[] = [];
+
+    const response = await processMediaRequest("severance", requester, undefined, undefined, (u) =>
+      updates.push(u)
+    );
+
+    const statuses = updates.filter((u) => u.type === "status").map((u) => u.text);
+    assert.deepEqual(statuses, ["Searching Seerr for Severance..."]);
+    const texts = updates.filter((u) => u.type === "text").map((u) => u.text);
+    assert.ok(texts.includes("Let me "), "text arrives a piece at a time");
+    assert.equal(texts.at(-1), response.result);
+  });
+
+  it("sends the tools and the conversation so far to the model", async () => {
+    fakeAnthropic.script({ text: "Hi! What would you like to watch?" });
+
+    const response = await processMediaRequest("hello", requester, [
+      { role: "user", content: "earlier" },
+      { role: "assistant", content: "earlier reply" },
+    ]);
+
+    const call = fakeAnthropic.messageCalls.at(-1)!;
+    assert.equal(call.body.model, "fake-model");
+    assert.ok(call.body.tools?.some((t) => t.name === "request_media"));
+    assert.deepEqual(
+      call.body.messages.map((m) => m.content),
+      ["earlier", "earlier reply", "hello"]
+    );
+    assert.equal(response.result, "Hi! What would you like to watch?");
+  });
+});
@@ -0,0 +1,109 @@
+import { stopFakes } from "./helpers/setup.js";
+import assert from "node:assert/strict";
+import { after, describe, it } from "node:test";
+import type { ButtonInteraction } from "discord.js";
+import type { ResponseMessage } from "../src/formatting.js";
+
+// Loaded after setup so config sees the fakes' URLs
+const { attachComponents, handleComponentInteraction } = await import("../src/components.js");
+const { createResponseActions } = await import("../src/agent/index.js");
+const { sessionManager } = await import("../src/sessions.js");
+
+after(stopFakes);
+
+interface ButtonJson {
+  custom_id: string;
+  label?: string;
+}
+
+function buttonsOf(components: { toJSON(): unknown }[] | undefined): ButtonJson[] {
+  return (components ?? []).flatMap((row) => (row.toJSON() as { components: ButtonJson[] }).components);
+}
+
+function approvedIds(components: { toJSON(): unknown }[] | undefined): string[] {
+  return buttonsOf(components)
+    .map((button) => button.custom_id)
+    .filter((id) => id.startsWith("approve:"));
+}
+
+describe("attachComponents", () => {
+  it("moves approval buttons that don't fit below the reply into follow-ups", () => {
+    const actions = createResponseActions();
+    actions.choices = [
+      { tmdbId: 1, mediaType: "movie", label: "One (2001) - Movie" },
+      { tmdbId: 2, mediaType: "movie", label: "Two (2002) - Movie" },
+    ];
+    actions.list = { tool: "list_requests", input: { filter: "pending" }, page: 1, hasMore: true };
+    actions.pendingRequestIds = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+
+    const messages = attachComponents([{ content: "Pending requests" }], actions);
+
+    assert.equal(messages.length, 3);
+    assert.equal(messages[0].content, "Pending requests");
+    assert.equal(messages[0].components?.length, 5);
+    assert.deepEqual(approvedIds(messages[0].components), ["approve:1", "approve:2", "approve:3"]);
+    assert.equal(messages[1].components?.length, 5);
+    assert.deepEqual(approvedIds(messages[2].components), ["approve:9", "approve:10"]);
+  });
+
+  it("offers to request all seasons, and the missing ones once some are in", () => {
+    const actions = createResponseActions();
+    const severance = { tmdbId: 95396, mediaType: "tv" as const, label: "Severance (2022) - TV" };
+
+    actions.media = { ...severance, seasons: [1, 2], allSeasons: [1, 2] };
+    const [fresh] = attachComponents([{ content: "Severance" }], actions);
+    assert.deepEqual(
+      buttonsOf(fresh.components).map((button) => button.label),
+      ["Request all seasons", "Pick seasons"]
+    );
+
+    actions.media = { ...severance, seasons: [2], allSeasons: [1, 2] };
+    const [partial] = attachComponents([{ content: "Severance" }], actions);
+    assert.deepEqual(
+      buttonsOf(partial.components).map((button) => button.custom_id),
+      ["request-all:tv:95396", "request:tv:95396", "seasons:tv:95396"]
+    );
+  });
+
+  it("leaves replies without actions alone", () => {
+    const messages = [{ content: "Hello" }];
+    assert.deepEqual(attachComponents(messages, createResponseActions()), messages);
+  });
+});
+
+describe("page buttons", () => {
+  it("replace the list they sit on instead of posting a new reply", async () => {
+    const list = { tool: "search_media", input: { query: "Severance" }, page: 1, hasMore: true };
+    sessionManager.setListCursor("1001", list);
+    const actions = createResponseActions();
+    actions.list = list;
+    const [listed] = attachComponents([{ content: "Page 1" }], actions);
+    const next = buttonsOf(listed.components).find((button) => button.label === "Next");
+
+    const calls: string[] = [];
+    const edits: ResponseMessage[] = [];
+    const interaction = {
+      customId: next?.custom_id,
+      user: { id: "1001", tag: "tester" },
+      guildId: null,
+      channelId: null,
+      member: null,
+      isButton: () => true,
+      deferUpdate: async () => calls.push("deferUpdate"),
+      deferReply: async () => calls.push("deferReply"),
+      reply: async () => calls.push("reply"),
+      followUp: async () => calls.push("followUp"),
+      editReply: async (edit: ResponseMessage) => {
+        calls.push("editReply");
+        edits.push(edit);
+      },
+    };
+
+    await handleComponentInteraction(interaction as unknown as ButtonInteraction);
+
+    assert.deepEqual(calls, ["deferUpdate", "editReply"]);
+    // The Severance fixture only fills the first page
+    assert.equal(edits[0].content, 'No more results for "Severance".');
+    assert.deepEqual(edits[0].components, []);
+  });
+});
@@ -0,0 +1,88 @@
+import { fakeAnthropic, fakeSeerr, stopFakes } from "./helpers/setup.js";
+import assert from "node:assert/strict";
+import { after, beforeEach, describe, it } from "node:test";
+import type { RequesterContext } from "../src/agent/index.js";
+import { parseCommand } from "../src/fallback.js";
+
+// Loaded after setup so config sees the fakes' URLs
+const { processMediaRequest } = await import("../src/agent/index.js");
+
+const requester: RequesterContext = { discordId: "1001", discordTag: "tester", roleIds: [] };
+
+after(stopFakes);
+
+beforeEach(() => {
+  fakeSeerr.requests.length = 0;
+});
+
+describe("parseCommand", () => {
+  const tool = (name: string, input: Record<string, unknown>) => ({ kind: "tool", name, input });
+
+  for (const [text, expected] of [
+    ["approve request #42", tool("approve_request", { requestId: 42 })],
+    ["Deny 7 please", tool("decline_request", { requestId: 7 })],
+    ["show pending requests", tool("list_requests", { filter: "pending" })],
+    ["list failed requests", tool("list_requests", { filter: "failed" })],
+    ["requests?", tool("list_requests", { filter: "pending" })],
+    ["show my requests", tool("my_requests", {})],
+    ["what's trending?", tool("discover_trending", { mediaType: "all" })],
+    ["trending shows", tool("discover_trending", { mediaType: "tv" })],
+    ["upcoming movies", tool("discover_upcoming", { mediaType: "movie" })],
+    ["Request Inception (2010)", { kind: "request", query: "Inception (2010)", mediaType: undefined }],
+    ["please request the show Severance!", { kind: "request", query: "Severance", mediaType: "tv" }],
+    ["add the movie Dune 2021", { kind: "request", query: "Dune 2021", mediaType: "movie" }],
+  ] as const) {
+    it(`parses "${text}"`, () => {
+      assert.deepEqual(parseCommand(text), expected);
+    });
+  }
+
+  for (const text of [
+    "request season 2 of Severance",
+    "request Dune in 4K",
+    "approve all requests",
+    "show cancelled requests",
+    "what should I watch tonight?",
+  ]) {
+    it(`leaves "${text}" to the model`, () => {
+      assert.equal(parseCommand(text), null);
+    });
+  }
+});
+
+// The fake Anthropic answers with an error when no turns are scripted
+describe("when the LLM call fails", () => {
+  it("requests a title that matches exactly", async () => {
+    const response = await processMediaRequest("request Dune Part Two", requester);
+
+    assert.match(response.result, /^The assistant is unavailable right now/);
+    assert.ok(response.result.includes("Movie request submitted successfully!"));
+    assert.equal(fakeSeerr.calls("POST", "/api/v1/request")[0].body.mediaId, 693134);
+    assert.deepEqual(response.messages.at(-1), { role: "assistant", content: response.result });
+    assert.equal(fakeAnthropic.remainingTurns, 0);
+  });
+
+  it("lists the matches instead of guessing between them", async () => {
+    const response = await processMediaRequest("request Severance", requester);
+
+    assert.ok(response.result.includes('More than one title is called "Severance"'));
+    assert.ok(response.result.includes("1. Severance (2022) - TV - TMDB:95396"));
+    assert.equal(response.actions.choices.length, 2);
+    assert.equal(fakeSeerr.calls("POST", "/api/v1/request").length, 0);
+  });
+
+  it("requests the missing seasons of a show", async () => {
+    const response = await processMediaRequest("request the show Severance", requester);
+
+    assert.ok(response.result.includes("TV show request submitted successfully!"), response.result);
+    assert.deepEqual(fakeSeerr.calls("POST", "/api/v1/request")[0].body.seasons, [2]);
+  });
+
+  it("explains which commands still work", async () => {
+    const response = await processMediaRequest("what should I watch tonight?", requester);
+
+    assert.match(response.result, /^Sorry, the assistant is unavailable right now/);
+    assert.ok(response.result.includes("- approve request #42"));
+    assert.equal(fakeSeerr.requests.length, 0);
+  });
+});
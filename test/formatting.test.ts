@@ -0,0 +1,98 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  buildResponseMessages,
+  formatStreamingText,
+  parseResponseSections,
+  splitTextIntoChunks,
+} from "../src/formatting.js";
+
+const POSTER_A = "https://image.tmdb.org/t/p/w342/a.jpg";
+const POSTER_B = "https://image.tmdb.org/t/p/w342/b.jpg";
+const LONG_LINE = "This overview is long enough to survive the short-section filter.";
+
+describe("parseResponseSections", () => {
+  it("returns the whole text when there are no posters", () => {
+    assert.deepEqual(parseResponseSections("  Hello there  "), [
+      { text: "Hello there", posterUrl: null },
+    ]);
+  });
+
+  it("attaches a single poster to the whole text", () => {
+    const sections = parseResponseSections(`**Severance (2022)**\nOverview\n\n[POSTER:${POSTER_A}]`);
+    assert.deepEqual(sections, [{ text: "**Severance (2022)**\nOverview", posterUrl: POSTER_A }]);
+  });
+
+  it("splits on each poster and attaches it to the text before it", () => {
+    const text = `1. First\n${LONG_LINE}\n[POSTER:${POSTER_A}]\n2. Second\n${LONG_LINE}\n[POSTER:${POSTER_B}]\nok`;
+    const sections = parseResponseSections(text);
+
+    assert.equal(sections.length, 2);
+    assert.deepEqual(
+      sections.map((s) => s.posterUrl),
+      [POSTER_A, POSTER_B]
+    );
+    assert.ok(sections[1].text.startsWith("2. Second"));
+  });
+
+  it("ignores poster tags that aren't https URLs", () => {
+    const sections = parseResponseSections("Title [POSTER:http://insecure.example/x.jpg]");
+    assert.equal(sections[0].posterUrl, null);
+  });
+});
+
+describe("splitTextIntoChunks", () => {
+  it("leaves short text alone", () => {
+    assert.deepEqual(splitTextIntoChunks("short"), ["short"]);
+  });
+
+  it("breaks at newlines and keeps every chunk within the limit", () => {
+    const text = Array.from({ length: 60 }, (_, i) => `Line ${i}: ${LONG_LINE}`).join("\n");
+    const chunks = splitTextIntoChunks(text);
+
+    assert.ok(chunks.length > 1);
+    for (const chunk of chunks) {
+      assert.ok(chunk.length <= 2000, `chunk of ${chunk.length} characters`);
+      assert.ok(chunk.startsWith("Line "), "chunks start on a line boundary");
+    }
+    assert.equal(chunks.join("\n"), text);
+  });
+
+  it("cuts hard when there is no whitespace to break on", () => {
+    const chunks = splitTextIntoChunks("x".repeat(4500));
+    assert.deepEqual(
+      chunks.map((c) => c.length),
+      [2000, 2000, 500]
+    );
+  });
+});
+
+describe("formatStreamingText", () => {
+  it("hides poster tags, including one still being written", () => {
+    assert.deepEqual(formatStreamingText(`**Severance**\n[POSTER:${POSTER_A}]\n**Dune**\n[POSTER:htt`), [
+      "**Severance**\n\n**Dune**",
+    ]);
+  });
+
+  it("splits long text like the final reply", () => {
+    const text = "x".repeat(2500);
+    assert.deepEqual(formatStreamingText(text), splitTextIntoChunks(text));
+  });
+});
+
+describe("buildResponseMessages", () => {
+  it("sends plain text as content chunks", () => {
+    const messages = buildResponseMessages("Request submitted.");
+    assert.deepEqual(messages, [{ content: "Request submitted." }]);
+  });
+
+  it("turns poster sections into embeds with thumbnails", () => {
+    const [message] = buildResponseMessages(`**Severance (2022)**\nOverview\n[POSTER:${POSTER_A}]`);
+
+    assert.equal(message.content, undefined);
+    assert.equal(message.embeds?.length, 1);
+    const embed = message.embeds![0].toJSON();
+    assert.equal(embed.description, "**Severance (2022)**\nOverview");
+    assert.equal(embed.thumbnail?.url, POSTER_A);
+  });
+});
@@ -0,0 +1,137 @@
+import type Anthropic from "@anthropic-ai/sdk";
+import type { ToolResultBlock } from "../../src/types/index.js";
+import { FakeServer, type RecordedRequest } from "./fake-server.js";
+
+export interface ScriptedToolUse {
+  name: string;
+  input: Record<string, unknown>;
+}
+
+// One recorded assistant turn: optional text, then any tool calls
+export interface ScriptedTurn {
+  text?: string;
+  toolUses?: ScriptedToolUse[];
+  /** Defaults to tool_use when there are tool calls, else end_turn */
+  stopReason?: "max_tokens";
+}
+
+// Stand-in for the Messages API that plays back scripted turns in order
+export class FakeAnthropic extends FakeServer {
+  private turns: ScriptedTurn[] = [];
+  private toolUseCount = 0;
+
+  constructor() {
+    super();
+    this.on("POST", "/v1/messages", (request) => this.nextTurn(Boolean(request.body.stream)));
+  }
+
+  script(...turns: ScriptedTurn[]): void {
+    this.turns.push(...turns);
+  }
+
+  get remainingTurns(): number {
+    return this.turns.length;
+  }
+
+  /** Messages API calls made so far */
+  get messageCalls(): RecordedRequest<Anthropic.MessageCreateParams>[] {
+    return this.calls("POST", "/v1/messages");
+  }
+
+  // tool_result blocks the bot sent back in its most recent call. The bot
+  // always sends their content as a plain string.
+  lastToolResults(): ToolResultBlock[] {
+    const content = this.messageCalls.at(-1)?.body.messages.at(-1)?.content;
+    if (!Array.isArray(content)) return [];
+    return content.filter((block) => block.type === "tool_result") as ToolResultBlock[];
+  }
+
+  private nextTurn(stream: boolean) {
+    const turn = this.turns.shift();
+    if (!turn) {
+      // 400 so the SDK fails straight away instead of retrying
+      return {
+        status: 400,
+        body: {
+          type: "error",
+          error: { type: "invalid_request_error", message: "No scripted turn left" },
+        },
+      };
+    }
+
+    const content: Anthropic.ContentBlock[] = [];
+    if (turn.text) {
+      content.push({ type: "text", text: turn.text, citations: null });
+    }
+    for (const toolUse of turn.toolUses ?? []) {
+      content.push({
+        type: "tool_use",
+        id: `toolu_${++this.toolUseCount}`,
+        name: toolUse.name,
+        input: toolUse.input,
+      });
+    }
+
+    const message: Anthropic.Message = {
+      id: `msg_${this.messageCalls.length}`,
+      type: "message",
+      role: "assistant",
+      model: "fake-model",
+      content,
+      stop_reason: turn.stopReason ?? (turn.toolUses?.length ? "tool_use" : "end_turn"),
+      stop_sequence: null,
+      usage: {
+        input_tokens: 10,
+        output_tokens: 10,
+        cache_creation_input_tokens: null,
+        cache_read_input_tokens: null,
+      },
+    };
+    return stream
+      ? { body: toEventStream(message), contentType: "text/event-stream" }
+      : { body: message };
+  }
+}
+
+// The same message as server-sent events, with text sent a word at a time
+function toEventStream(message: Anthropic.Message): string {
+  const events: Anthropic.RawMessageStreamEvent[] = [
+    {
+      type: "message_start",
+      message: {
+        ...message,
+        content: [],
+        stop_reason: null,
+        usage: { ...message.usage, output_tokens: 0 },
+      },
+    },
+  ];
+  message.content.forEach((block, index) => {
+    if (block.type === "text") {
+      const start = { type: "text" as const, text: "", citations: null };
+      events.push({ type: "content_block_start", index, content_block: start });
+      for (const word of block.text.split(/(?<= )/)) {
+        events.push({ type: "content_block_delta", index, delta: { type: "text_delta", text: word } });
+      }
+    } else if (block.type === "tool_use") {
+      events.push({ type: "content_block_start", index, content_block: { ...block, input: {} } });
+      events.push({
+        type: "content_block_delta",
+        index,
+        delta: { type: "input_json_delta", partial_json: JSON.stringify(block.input) },
+      });
+    }
+    events.push({ type: "content_block_stop", index });
+  });
+  events.push(
+    {
+      type: "message_delta",
+      delta: { stop_reason: message.stop_reason, stop_sequence: null },
+      usage: { output_tokens: 10 },
+    },
+    { type: "message_stop" }
+  );
+  return events
+    .map((event) => `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`)
+    .join("");
+}
@@ -0,0 +1,93 @@
+import { readFileSync } from "node:fs";
+import { createServer, type IncomingMessage, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+
+export interface RecordedRequest<TBody = Record<string, unknown>> {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  headers: IncomingMessage["headers"];
+  /** Parsed JSON body, or an empty object when there was none */
+  body: TBody;
+}
+
+export interface FakeResponse {
+  status?: number;
+  /** Sent as JSON unless it is already a string */
+  body?: unknown;
+  contentType?: string;
+}
+
+// Async handlers can hold a response back, e.g. to simulate a slow service
+type Handler = (request: RecordedRequest) => FakeResponse | Promise<FakeResponse>;
+
+export function loadFixture<T = unknown>(name: string): T {
+  const url = new URL(`../fixtures/${name}`, import.meta.url);
+  return JSON.parse(readFileSync(url, "utf8"));
+}
+
+// Minimal HTTP server that answers registered routes and records every call
+export class FakeServer {
+  readonly requests: RecordedRequest[] = [];
+  private routes = new Map<string, Handler>();
+  private server: Server | null = null;
+  url = "";
+
+  // Later registrations replace earlier ones, so tests can override fixtures
+  on(method: string, path: string, handler: Handler | FakeResponse): this {
+    this.routes.set(
+      `${method} ${path}`,
+      typeof handler === "function" ? handler : () => handler
+    );
+    return this;
+  }
+
+  // Callers that know the route's body shape can name it
+  calls<TBody = Record<string, unknown>>(method: string, path: string): RecordedRequest<TBody>[] {
+    const calls = this.requests.filter((r) => r.method === method && r.path === path);
+    return calls as RecordedRequest<unknown>[] as RecordedRequest<TBody>[];
+  }
+
+  async start(): Promise<string> {
+    this.server = createServer(async (req, res) => {
+      const chunks: Buffer[] = [];
+      for await (const chunk of req) chunks.push(chunk as Buffer);
+      const raw = Buffer.concat(chunks).toString("utf8");
+
+      const url = new URL(req.url ?? "/", "http://localhost");
+      const request: RecordedRequest = {
+        method: req.method ?? "GET",
+        path: url.pathname,
+        query: url.searchParams,
+        headers: req.headers,
+        body: raw ? JSON.parse(raw) : {},
+      };
+      this.requests.push(request);
+
+      const handler = this.routes.get(`${request.method} ${request.path}`);
+      const response = handler
+        ? await handler(request)
+        : { status: 404, body: { message: `No fake route for ${request.method} ${request.path}` } };
+
+      const body =
+        typeof response.body === "string" ? response.body : JSON.stringify(response.body ?? {});
+      res.writeHead(response.status ?? 200, {
+        "Content-Type": response.contentType ?? "application/json",
+      });
+      res.end(body);
+    });
+
+    await new Promise<void>((resolve) => this.server!.listen(0, "127.0.0.1", resolve));
+    const { port } = this.server.address() as AddressInfo;
+    this.url = `http://127.0.0.1:${port}`;
+    return this.url;
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) return;
+    // fetch keeps connections alive, which would hold close() open
+    this.server.closeAllConnections();
+    await new Promise<void>((resolve) => this.server!.close(() => resolve()));
+    this.server = null;
+  }
+}
@@ -0,0 +1,57 @@
+// Fake Seerr and OMDb backed by the fixtures, shared by the tests and the evals
+import { FakeServer, loadFixture, type RecordedRequest } from "./fake-server.js";
+
+// Search fixtures by the word a query has to contain
+const SEARCH_FIXTURES: Record<string, string> = {
+  severance: "seerr-search-severance.json",
+  inception: "seerr-search-inception.json",
+  dune: "seerr-search-dune.json",
+};
+
+const EMPTY_SEARCH = { page: 1, totalPages: 0, totalResults: 0, results: [] };
+
+function search(request: RecordedRequest) {
+  const query = request.query.get("query")?.toLowerCase() ?? "";
+  const match = Object.keys(SEARCH_FIXTURES).find((word) => query.includes(word));
+  return { body: match ? loadFixture(SEARCH_FIXTURES[match]) : EMPTY_SEARCH };
+}
+
+// Echo a created request back the way Seerr does
+function createRequestHandler() {
+  let nextRequestId = 100;
+  return (request: RecordedRequest) => {
+    const { mediaType, mediaId, seasons } = request.body as {
+      mediaType: "movie" | "tv";
+      mediaId: number;
+      seasons?: number[];
+    };
+    return {
+      status: 201,
+      body: {
+        id: nextRequestId++,
+        status: 1,
+        type: mediaType,
+        media: { id: 500, tmdbId: mediaId, status: 2, mediaType },
+        createdAt: "2026-01-01T12:00:00.000Z",
+        seasons: seasons?.map((seasonNumber) => ({ seasonNumber, status: 1 })),
+      },
+    };
+  };
+}
+
+export function createFakeSeerr(): FakeServer {
+  return new FakeServer()
+    .on("GET", "/api/v1/search", search)
+    .on("GET", "/api/v1/tv/95396", { body: loadFixture("seerr-tv-severance.json") })
+    .on("GET", "/api/v1/movie/27205", { body: loadFixture("seerr-movie-inception.json") })
+    .on("GET", "/api/v1/movie/693134", { body: loadFixture("seerr-movie-dune-part-two.json") })
+    .on("POST", "/api/v1/request", createRequestHandler());
+}
+
+export function createFakeOmdb(): FakeServer {
+  return new FakeServer().on("GET", "/", (request) =>
+    request.query.get("i") === "tt11280740"
+      ? { body: loadFixture("omdb-severance.json") }
+      : { body: { Response: "False", Error: "Incorrect IMDb ID." } }
+  );
+}
@@ -0,0 +1,42 @@
+// Starts the fake services and points the bot's config at them. Import this
+// before anything from src/, since config is read once at import time.
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { FakeAnthropic } from "./fake-anthropic.js";
+import { createFakeOmdb, createFakeSeerr } from "./fake-services.js";
+
+export const fakeSeerr = createFakeSeerr();
+export const fakeOmdb = createFakeOmdb();
+export const fakeAnthropic = new FakeAnthropic();
+
+await Promise.all([fakeSeerr.start(), fakeOmdb.start(), fakeAnthropic.start()]);
+
+const dataDir = mkdtempSync(join(tmpdir(), "seerr-bot-test-"));
+// An empty config file, so a local config.json can't change what the tests see
+const configFile = join(dataDir, "config.json");
+writeFileSync(configFile, "{}");
+
+Object.assign(process.env, {
+  DISCORD_BOT_TOKEN: "test-token",
+  SEERR_URL: fakeSeerr.url,
+  SEERR_API_KEY: "test-seerr-key",
+  OMDB_URL: fakeOmdb.url,
+  OMDB_API_KEY: "test-omdb-key",
+  ANTHROPIC_BASE_URL: fakeAnthropic.url,
+  ANTHROPIC_API_KEY: "test-anthropic-key",
+  CLAUDE_MODEL: "fake-model",
+  DATA_DIR: dataDir,
+  CONFIG_FILE: configFile,
+  SESSION_STORE: "memory",
+  HTTP_RETRIES: "0",
+  // Expire cached responses straight away so every call reaches the fakes
+  CACHE_METADATA_TTL_SECONDS: "0.001",
+  CACHE_RATINGS_TTL_SECONDS: "0.001",
+  CACHE_STATUS_TTL_SECONDS: "0.001",
+});
+
+export async function stopFakes(): Promise<void> {
+  await Promise.all([fakeSeerr.stop(), fakeOmdb.stop(), fakeAnthropic.stop()]);
+  rmSync(dataDir, { recursive: true, force: true });
+}
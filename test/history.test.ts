@@ -0,0 +1,124 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { compactHistory } from "../src/history.js";
+import type { ChatMessage, ContentBlock } from "../src/types/index.js";
+
+type Message = ChatMessage;
+
+const SEARCH_RESULT = [
+  'Found 3 results for "severance":',
+  "1. Severance (2022) - tv - TMDB:95396 - https://www.themoviedb.org/tv/95396",
+  "   Overview: A lengthy overview that only matters while picking a result.",
+  "2. Severance (2006) - movie - TMDB:1825 - https://www.themoviedb.org/movie/1825",
+  "   Overview: Another overview nobody needs three messages later.",
+].join("\n");
+
+const DETAILS_RESULT = [
+  "TV Show: Severance (2022)",
+  "Status: Partially Available",
+  "Overview: " + "Mark leads a team of office workers. ".repeat(40),
+  "TMDB: https://www.themoviedb.org/tv/95396",
+].join("\n");
+
+const REQUEST_RESULT = [
+  "TV show request submitted successfully!",
+  "Request ID: 101",
+  "Seasons requested: 2",
+].join("\n");
+
+let nextId = 0;
+
+// One user message, one tool call with its result, and the final answer
+function exchange(
+  text: string,
+  tool: string,
+  input: Record<string, unknown>,
+  result: string
+): Message[] {
+  const id = `toolu_${++nextId}`;
+  return [
+    { role: "user", content: text },
+    { role: "assistant", content: [{ type: "tool_use", id, name: tool, input }] },
+    { role: "user", content: [{ type: "tool_result", tool_use_id: id, content: result }] },
+    { role: "assistant", content: [{ type: "text", text: `Done with "${text}".` }] },
+  ];
+}
+
+function toolResults(messages: Message[]): string[] {
+  return messages.flatMap((message) =>
+    Array.isArray(message.content)
+      ? message.content.flatMap((block) =>
+          block.type === "tool_result" ? [block.content] : []
+        )
+      : []
+  );
+}
+
+function summaryOf(messages: Message[]): string | undefined {
+  const first = messages[0].content;
+  if (typeof first === "string") return undefined;
+  const block = first[0];
+  return block.type === "text" && block.text.startsWith("Earlier") ? block.text : undefined;
+}
+
+describe("compactHistory", () => {
+  it("leaves short conversations alone", () => {
+    const messages = exchange("find severance", "search_media", {}, SEARCH_RESULT);
+    assert.deepEqual(compactHistory(messages, 6000), messages);
+  });
+
+  it("trims tool results of earlier exchanges and keeps the latest one verbatim", () => {
+    const messages = [
+      ...exchange("find severance", "search_media", { query: "severance" }, SEARCH_RESULT),
+      ...exchange("the 2022 one", "search_media", { query: "severance 2022" }, SEARCH_RESULT),
+    ];
+    const [older, latest] = toolResults(compactHistory(messages, 6000));
+
+    assert.ok(older.startsWith("[Trimmed] Found 3 results"), older);
+    assert.ok(older.includes("TMDB:95396") && older.includes("TMDB:1825"));
+    assert.ok(!older.includes("Overview"));
+    assert.equal(latest, SEARCH_RESULT);
+  });
+
+  it("drops the oldest exchanges but remembers what they settled", () => {
+    const details = { mediaType: "tv", tmdbId: 95396 };
+    const messages = [
+      ...exchange("tell me about severance", "get_media_details", details, DETAILS_RESULT),
+      ...exchange("request season 2", "request_media", { ...details, seasons: [2] }, REQUEST_RESULT),
+      ...exchange("find inception", "search_media", { query: "inception" }, SEARCH_RESULT),
+    ];
+    const compacted = compactHistory(messages, 200);
+
+    assert.equal(compacted.length, 4, "only the latest exchange is left");
+    assert.equal(toolResults(compacted)[0], SEARCH_RESULT);
+    assert.equal(
+      summaryOf(compacted),
+      [
+        "Earlier in this conversation:",
+        "- TV Show: Severance (2022) - tv TMDB:95396",
+        "- Requested tv TMDB:95396 (seasons 2, request #101)",
+      ].join("\n")
+    );
+    const text = (compacted[0].content as ContentBlock[])[1];
+    assert.deepEqual(text, { type: "text", text: "find inception" });
+  });
+
+  it("carries remembered facts through later compactions", () => {
+    const details = { mediaType: "tv", tmdbId: 95396 };
+    const first = compactHistory(
+      [
+        ...exchange("tell me about severance", "get_media_details", details, DETAILS_RESULT),
+        ...exchange("find inception", "search_media", { query: "inception" }, SEARCH_RESULT),
+      ],
+      200
+    );
+    const second = compactHistory(
+      [...first, ...exchange("find dune", "search_media", { query: "dune" }, SEARCH_RESULT)],
+      200
+    );
+
+    assert.equal(summaryOf(second), summaryOf(first));
+    assert.equal(second.length, 4);
+    assert.deepEqual(compactHistory(second, 200), second, "compacting again changes nothing");
+  });
+});
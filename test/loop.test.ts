@@ -0,0 +1,104 @@
+import { fakeAnthropic, fakeSeerr, stopFakes } from "./helpers/setup.js";
+import { loadFixture } from "./helpers/fake-server.js";
+import assert from "node:assert/strict";
+import { setTimeout as sleep } from "node:timers/promises";
+import { after, beforeEach, describe, it } from "node:test";
+import type { RequesterContext } from "../src/agent/index.js";
+
+process.env.AGENT_MAX_TOOL_ROUNDS = "2";
+process.env.AGENT_TOOL_TIMEOUT_MS = "1000";
+
+// Loaded after the limits are set, since config is read at import time
+const { processMediaRequest } = await import("../src/agent/index.js");
+
+const requester: RequesterContext = {
+  discordId: "1001",
+  discordTag: "tester",
+  roleIds: [],
+};
+
+after(stopFakes);
+
+beforeEach(() => {
+  fakeSeerr.requests.length = 0;
+});
+
+describe("agent loop safeguards", () => {
+  it("runs a turn's tool calls side by side and keeps their order", async () => {
+    // Inception's details are held back until Severance's have been asked for,
+    // so running the calls one after another would time out
+    let releaseMovie!: () => void;
+    const movieReleased = new Promise<void>((resolve) => (releaseMovie = resolve));
+    fakeSeerr.on("GET", "/api/v1/movie/27205", async () => {
+      await movieReleased;
+      return { body: loadFixture("seerr-movie-inception.json") };
+    });
+    fakeSeerr.on("GET", "/api/v1/tv/95396", () => {
+      releaseMovie();
+      return { body: loadFixture("seerr-tv-severance.json") };
+    });
+
+    fakeAnthropic.script(
+      {
+        toolUses: [
+          { name: "get_media_details", input: { tmdbId: 27205, mediaType: "movie" } },
+          { name: "get_media_details", input: { tmdbId: 95396, mediaType: "tv" } },
+        ],
+      },
+      { text: "Inception is already available; Severance is missing season 2." }
+    );
+
+    const response = await processMediaRequest("inception and severance?", requester);
+
+    const [movie, tv] = fakeAnthropic.lastToolResults();
+    assert.ok(movie.content.startsWith("Movie: Inception"), movie.content);
+    assert.ok(tv.content.startsWith("TV Show: Severance"), tv.content);
+    // The last call decides what the buttons act on, as if run in order
+    assert.equal(response.actions.media?.tmdbId, 95396);
+  });
+
+  it("tells the model about a tool call that takes too long", async () => {
+    fakeSeerr.on("GET", "/api/v1/movie/693134", async () => {
+      await sleep(2000);
+      return { body: loadFixture("seerr-movie-dune-part-two.json") };
+    });
+    fakeAnthropic.script(
+      { toolUses: [{ name: "get_media_details", input: { tmdbId: 693134, mediaType: "movie" } }] },
+      { text: "Seerr is slow right now, try again in a bit." }
+    );
+
+    const response = await processMediaRequest("dune part two", requester);
+
+    const [result] = fakeAnthropic.lastToolResults();
+    assert.match(result.content, /^Error: get_media_details did not finish within 1s/);
+    assert.equal(response.result, "Seerr is slow right now, try again in a bit.");
+    assert.equal(response.actions.media, undefined);
+  });
+
+  it("gives up once the tool rounds run out", async () => {
+    const search = { toolUses: [{ name: "search_media", input: { query: "severance" } }] };
+    fakeAnthropic.script(search, search, { text: "One more search.", ...search });
+
+    const response = await processMediaRequest("find severance", requester);
+
+    assert.equal(fakeAnthropic.remainingTurns, 0);
+    assert.equal(fakeSeerr.calls("GET", "/api/v1/search").length, 2);
+    assert.match(response.result, /^One more search\.\n\nSorry, I couldn't finish that/);
+    // No unanswered tool call is left in the stored conversation
+    assert.deepEqual(response.messages.at(-1), { role: "assistant", content: response.result });
+  });
+
+  it("says so when a reply is cut off at the token limit", async () => {
+    fakeAnthropic.script({
+      text: "Here are twenty shows you might like:\n1. Severance",
+      toolUses: [{ name: "search_media", input: { query: "severance" } }],
+      stopReason: "max_tokens",
+    });
+
+    const response = await processMediaRequest("recommend me shows", requester);
+
+    assert.equal(fakeSeerr.requests.length, 0, "the cut-off tool call is not run");
+    assert.match(response.result, /1\. Severance\n\n\(My reply got too long and was cut off/);
+    assert.deepEqual(response.messages.at(-1), { role: "assistant", content: response.result });
+  });
+});
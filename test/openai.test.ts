@@ -0,0 +1,139 @@
+import { fakeSeerr, stopFakes } from "./helpers/setup.js";
+import { FakeServer } from "./helpers/fake-server.js";
+import assert from "node:assert/strict";
+import { after, describe, it } from "node:test";
+import type { RequesterContext } from "../src/agent/index.js";
+import type { OpenAiMessage, toOpenAiTool } from "../src/services/openai.js";
+
+// What the provider posts to /chat/completions
+interface ChatCompletionRequest {
+  model: string;
+  max_tokens?: number;
+  max_completion_tokens?: number;
+  stream: boolean;
+  messages: OpenAiMessage[];
+  tools: ReturnType<typeof toOpenAiTool>[];
+}
+
+// A self-hosted chat completions server, answering with scripted event streams
+// (or, given a string, that raw body)
+const chunkScripts: (object[] | string)[] = [];
+const fakeLlm = new FakeServer().on("POST", "/v1/chat/completions", () => {
+  const script = chunkScripts.shift()!;
+  if (typeof script === "string") return { contentType: "text/event-stream", body: script };
+  const events = script.map((chunk) => `data: ${JSON.stringify(chunk)}\n\n`);
+  return { contentType: "text/event-stream", body: `${events.join("")}data: [DONE]\n\n` };
+});
+await fakeLlm.start();
+
+Object.assign(process.env, {
+  LLM_PROVIDER: "openai",
+  OPENAI_BASE_URL: `${fakeLlm.url}/v1/`,
+  OPENAI_MODEL: "local-model",
+});
+
+// Loaded after the provider is chosen, since config is read at import time
+const { processMediaRequest } = await import("../src/agent/index.js");
+const { OpenAiProvider } = await import("../src/services/openai.js");
+const { LlmApiError } = await import("../src/services/http.js");
+
+const requester: RequesterContext = { discordId: "1001", discordTag: "tester", roleIds: [] };
+
+after(async () => {
+  await Promise.all([stopFakes(), fakeLlm.stop()]);
+});
+
+describe("OpenAI-compatible provider", () => {
+  it("runs the tool loop through chat completions", async () => {
+    chunkScripts.push(
+      [
+        // Tool calls arrive in pieces, and local servers may leave out the ID
+        { choices: [{ delta: { tool_calls: [{ index: 0, function: { name: "search_media", arguments: '{"que' } }] } }] },
+        { choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: 'ry": "Severance"}' } }] } }] },
+        { choices: [{ delta: {}, finish_reason: "stop" }] },
+        { choices: [], usage: { prompt_tokens: 120, completion_tokens: 15 } },
+      ],
+      [
+        { choices: [{ delta: { content: "Found " } }] },
+        { choices: [{ delta: { content: "**Severance** (2022)." } }] },
+        { choices: [{ delta: {}, finish_reason: "stop" }] },
+      ]
+    );
+    const texts: string[] = [];
+
+    const response = await processMediaRequest("find severance", requester, undefined, undefined, (u) => {
+      if (u.type === "text") texts.push(u.text);
+    });
+
+    assert.equal(response.result, "Found **Severance** (2022).");
+    assert.deepEqual(texts, ["Found ", "Found **Severance** (2022)."]);
+    assert.equal(fakeSeerr.calls("GET", "/api/v1/search")[0].query.get("query"), "Severance");
+
+    const calls = fakeLlm.calls<ChatCompletionRequest>("POST", "/v1/chat/completions");
+    const [first, second] = calls.map((call) => call.body);
+    assert.equal(first.model, "local-model");
+    assert.equal(first.max_tokens, 2048);
+    assert.equal(first.stream, true);
+    assert.equal(first.messages[0].role, "system");
+    assert.deepEqual(first.messages[1], { role: "user", content: "find severance" });
+    const search = first.tools.find((tool) => tool.function.name === "search_media");
+    assert.equal(search?.type, "function");
+    assert.deepEqual(search?.function.parameters.required, ["query"]);
+
+    // The tool call goes back as an assistant message, its result as a tool message
+    const [assistant, tool] = second.messages.slice(2);
+    const [call] = assistant.tool_calls ?? [];
+    assert.equal(call.function.name, "search_media");
+    assert.deepEqual(JSON.parse(call.function.arguments), { query: "Severance" });
+    assert.equal(tool.role, "tool");
+    assert.equal(tool.tool_call_id, call.id);
+    assert.match(tool.content ?? "", /Severance \(2022\)/);
+  });
+
+  it("marks replies cut off at the token limit", async () => {
+    chunkScripts.push([
+      { choices: [{ delta: { content: "Here is a very long" } }] },
+      { choices: [{ delta: {}, finish_reason: "length" }] },
+    ]);
+
+    const response = await processMediaRequest("tell me everything", requester);
+
+    assert.match(response.result, /^Here is a very long\n\n\(My reply got too long/);
+  });
+
+  it("can send the token limit as max_completion_tokens", async () => {
+    const provider = new OpenAiProvider({
+      baseUrl: `${fakeLlm.url}/v1`,
+      maxTokensField: "max_completion_tokens",
+    });
+    chunkScripts.push([{ choices: [{ delta: { content: "Hi" }, finish_reason: "stop" }] }]);
+
+    await provider.chat({
+      model: "o-model",
+      system: "",
+      tools: [],
+      messages: [{ role: "user", content: "hi" }],
+      maxTokens: 100,
+    });
+
+    const { body } = fakeLlm.calls<ChatCompletionRequest>("POST", "/v1/chat/completions").at(-1)!;
+    assert.equal(body.max_completion_tokens, 100);
+    assert.equal(body.max_tokens, undefined);
+  });
+
+  it("reports malformed events as LLM errors", async () => {
+    const provider = new OpenAiProvider({ baseUrl: `${fakeLlm.url}/v1`, maxTokensField: "max_tokens" });
+    chunkScripts.push('data: {"choices": [{"delta": {"content": "Hi"}}]}\n\ndata: {"choi\n\n');
+
+    await assert.rejects(
+      provider.chat({
+        model: "local-model",
+        system: "",
+        tools: [],
+        messages: [{ role: "user", content: "hi" }],
+        maxTokens: 100,
+      }),
+      (error) => error instanceof LlmApiError && error.message.includes("isn't JSON")
+    );
+  });
+});
@@ -0,0 +1,69 @@
+import { fakeSeerr, stopFakes } from "./helpers/setup.js";
+import assert from "node:assert/strict";
+import { after, describe, it } from "node:test";
+
+// Loaded after setup so config sees the fakes' URLs
+const { resolveRequestOptions } = await import("../src/profiles.js");
+
+const sonarr = {
+  id: 0,
+  name: "Sonarr",
+  is4k: false,
+  isDefault: true,
+  activeDirectory: "/media/tv",
+  activeProfileId: 1,
+  activeLanguageProfileId: 2,
+};
+
+function serviceDetails(languageProfiles: { id: number; name: string }[] | null) {
+  return {
+    server: sonarr,
+    profiles: [
+      { id: 1, name: "HD-1080p" },
+      { id: 4, name: "Ultra-HD" },
+    ],
+    rootFolders: [{ id: 1, path: "/media/tv" }, { id: 2, path: "/media/anime" }],
+    tags: [{ id: 3, label: "anime" }],
+    languageProfiles,
+  };
+}
+
+fakeSeerr.on("GET", "/api/v1/service/sonarr", { body: [sonarr] });
+
+after(stopFakes);
+
+describe("resolveRequestOptions", () => {
+  it("turns names into the IDs and paths Seerr expects", async () => {
+    fakeSeerr.on("GET", "/api/v1/service/sonarr/0", { body: serviceDetails(null) });
+
+    const options = await resolveRequestOptions("tv", false, {
+      profile: "ultra",
+      rootFolder: "anime",
+      tags: ["Anime"],
+    });
+
+    assert.deepEqual(options, {
+      serverId: 0,
+      profileId: 4,
+      rootFolder: "/media/anime",
+      languageProfileId: undefined,
+      tags: [3],
+    });
+  });
+
+  it("sends the server's language profile to Sonarr v3", async () => {
+    fakeSeerr.on("GET", "/api/v1/service/sonarr/0", {
+      body: serviceDetails([
+        { id: 1, name: "Any" },
+        { id: 2, name: "English" },
+      ]),
+    });
+
+    // Cached details from the previous test would hide the language profiles
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    const options = await resolveRequestOptions("tv", false, { profile: "HD-1080p" });
+
+    assert.equal(options.profileId, 1);
+    assert.equal(options.languageProfileId, 2);
+  });
+});
@@ -0,0 +1,71 @@
+import assert from "node:assert/strict";
+import { setTimeout as sleep } from "node:timers/promises";
+import { describe, it } from "node:test";
+import type { Message } from "discord.js";
+import { ProgressReply } from "../src/progress.js";
+
+interface PostedMessage {
+  content: string | null;
+  edits: (string | null)[];
+  deleted: boolean;
+}
+
+// Just enough of a Discord message to reply to, edit and delete
+function createSource() {
+  const posted: PostedMessage[] = [];
+  const post = async (options: { content?: string }) => {
+    const message = {
+      content: options.content ?? null,
+      edits: [] as (string | null)[],
+      deleted: false,
+      async edit(edit: { content: string | null }) {
+        message.content = edit.content;
+        message.edits.push(edit.content);
+      },
+      async delete() {
+        message.deleted = true;
+      },
+    };
+    posted.push(message);
+    return message;
+  };
+  const source = { reply: post, channel: { isSendable: () => true, send: post } };
+  return { source: source as unknown as Message, posted };
+}
+
+describe("ProgressReply", () => {
+  it("edits the placeholder with only the latest progress, then the reply", async () => {
+    const { source, posted } = createSource();
+    const progress = new ProgressReply(source);
+    await progress.start();
+    assert.equal(posted[0].content, "Thinking...");
+
+    progress.update({ type: "status", text: "Searching Seerr for Severance..." });
+    await sleep(1700);
+    assert.deepEqual(posted[0].edits, ["*Searching Seerr for Severance...*"]);
+
+    progress.update({ type: "text", text: "Found" });
+    progress.update({ type: "text", text: "Found **Severance**" });
+    await sleep(1700);
+    assert.deepEqual(posted[0].edits.slice(1), ["Found **Severance**"]);
+
+    await progress.finish([{ content: "Found **Severance** (2022)." }]);
+    assert.equal(posted[0].content, "Found **Severance** (2022).");
+    assert.equal(posted.length, 1);
+  });
+
+  it("posts overflow messages and removes ones the reply doesn't need", async () => {
+    const { source, posted } = createSource();
+    const progress = new ProgressReply(source);
+    await progress.start();
+
+    progress.update({ type: "text", text: `${"a".repeat(1500)}\n${"b".repeat(1500)}` });
+    await sleep(1700);
+    assert.equal(posted.length, 2);
+    assert.equal(posted[1].content, "b".repeat(1500));
+
+    await progress.finish([{ content: "Short after all." }]);
+    assert.equal(posted[0].content, "Short after all.");
+    assert.equal(posted[1].deleted, true);
+  });
+});
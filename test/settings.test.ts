@@ -0,0 +1,121 @@
+import { stopFakes } from "./helpers/setup.js";
+import assert from "node:assert/strict";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, describe, it } from "node:test";
+
+const GUILD = "111111111111111111";
+const OTHER_GUILD = "999999999999999999";
+const CHANNEL = "222222222222222222";
+const QUIET_CHANNEL = "333333333333333333";
+
+const dir = mkdtempSync(join(tmpdir(), "seerr-bot-settings-"));
+const file = join(dir, "config.json");
+
+function writeSettings(value: unknown): void {
+  writeFileSync(file, typeof value === "string" ? value : JSON.stringify(value));
+}
+
+writeSettings({
+  model: "global-model",
+  allowedGuildIds: [GUILD],
+  allowDirectMessages: false,
+  sessionTtlMinutes: 45,
+  guilds: {
+    [GUILD]: {
+      allowedChannelIds: [CHANNEL, QUIET_CHANNEL],
+      managerRoleIds: ["444"],
+      requests: { enable4k: true, genreDefaults: { Animation: { rootFolder: "/media/anime" } } },
+      channels: {
+        [QUIET_CHANNEL]: { model: "quiet-model", features: { requests: false } },
+      },
+    },
+  },
+});
+process.env.CONFIG_FILE = file;
+
+// Loaded after CONFIG_FILE is set, since config is read at import time
+const { parseSettingsFile, settings } = await import("../src/settings.js");
+
+after(async () => {
+  await stopFakes();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("parseSettingsFile", () => {
+  it("lists every problem with its path", () => {
+    const text = JSON.stringify({
+      modle: "typo",
+      sessionTtlMinutes: 0,
+      guilds: {
+        [GUILD]: {
+          managerRoleIds: [444],
+          features: { requests: "no" },
+          channels: { general: {} },
+        },
+      },
+    });
+    assert.throws(
+      () => parseSettingsFile(text, "config.json"),
+      (error: Error) => {
+        assert.match(error.message, /^Config file config\.json is invalid:/);
+        for (const problem of [
+          "settings.modle is not a known setting",
+          "settings.sessionTtlMinutes must be a positive number",
+          `settings.guilds.${GUILD}.managerRoleIds must be a list of Discord IDs`,
+          `settings.guilds.${GUILD}.features.requests must be true or false`,
+          `settings.guilds.${GUILD}.channels.general must be keyed by a Discord ID`,
+        ]) {
+          assert.ok(error.message.includes(problem), `missing "${problem}" in:\n${error.message}`);
+        }
+        return true;
+      }
+    );
+  });
+
+  it("accepts the example config", () => {
+    const example = readFileSync(new URL("../config.example.json", import.meta.url), "utf8");
+    assert.doesNotThrow(() => parseSettingsFile(example, "config.example.json"));
+  });
+
+  it("reports broken JSON", () => {
+    assert.throws(() => parseSettingsFile("{", "config.json"), /config\.json is not valid JSON/);
+  });
+});
+
+describe("settings", () => {
+  it("lets channels override their guild and guilds override the file", () => {
+    const guild = settings.resolve({ guildId: GUILD, channelId: CHANNEL });
+    assert.equal(guild.model, "global-model");
+    assert.deepEqual(guild.managerRoleIds, ["444"]);
+    assert.equal(guild.enable4k, true);
+    assert.deepEqual(guild.genreDefaults, { animation: { rootFolder: "/media/anime" } });
+    assert.deepEqual(guild.features, { requests: true, discovery: true, approvals: true });
+
+    const quiet = settings.resolve({ guildId: GUILD, channelId: QUIET_CHANNEL });
+    assert.equal(quiet.model, "quiet-model");
+    assert.equal(quiet.enable4k, true);
+    assert.deepEqual(quiet.features, { requests: false, discovery: true, approvals: true });
+  });
+
+  it("only answers in allowed guilds, channels and DMs", () => {
+    assert.equal(settings.isAllowed({ guildId: GUILD, channelId: CHANNEL }), true);
+    assert.equal(settings.isAllowed({ guildId: GUILD, channelId: "555555555555555555" }), false);
+    assert.equal(settings.isAllowed({ guildId: OTHER_GUILD, channelId: CHANNEL }), false);
+    assert.equal(settings.isAllowed({}), false);
+  });
+
+  it("reloads valid edits and keeps the old settings after invalid ones", () => {
+    writeSettings({ sessionTtlMinutes: 10, features: { discovery: false } });
+    settings.reload();
+    assert.equal(settings.sessionTtlMinutes, 10);
+    assert.equal(settings.resolve({ guildId: GUILD }).features.discovery, false);
+    assert.equal(settings.isAllowed({ guildId: OTHER_GUILD }), true);
+
+    writeSettings({ sessionTtlMinutes: "soon" });
+    settings.reload();
+    assert.equal(settings.sessionTtlMinutes, 10);
+    assert.equal(settings.resolve({ guildId: GUILD }).features.discovery, false);
+  });
+});
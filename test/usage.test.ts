@@ -0,0 +1,84 @@
+import { fakeAnthropic, fakeSeerr, stopFakes } from "./helpers/setup.js";
+import assert from "node:assert/strict";
+import { writeFileSync } from "node:fs";
+import { after, describe, it } from "node:test";
+import type { RequesterContext } from "../src/agent/index.js";
+
+const GUILD = "111111111111111111";
+
+// The fake Anthropic reports 10 input and 10 output tokens per call
+writeFileSync(
+  process.env.CONFIG_FILE!,
+  JSON.stringify({
+    budgets: { userDailyTokens: 30 },
+    guilds: { [GUILD]: { budgets: { guildDailyTokens: 50 } } },
+  })
+);
+
+// Loaded after the budgets are in place, since settings are read at import time
+const { processMediaRequest } = await import("../src/agent/index.js");
+const { usageTracker } = await import("../src/usage.js");
+
+function requester(discordId: string, guildId?: string): RequesterContext {
+  return { discordId, discordTag: `user-${discordId}`, guildId, roleIds: [] };
+}
+
+after(stopFakes);
+
+describe("token budgets", () => {
+  it("stops calling the model once a user's daily budget is used up", async () => {
+    const alice = requester("1", GUILD);
+    fakeAnthropic.script({ text: "One." }, { text: "Two." });
+
+    assert.equal((await processMediaRequest("first", alice)).result, "One.");
+    assert.equal((await processMediaRequest("second", alice)).result, "Two.");
+
+    const calls = fakeAnthropic.messageCalls.length;
+    const history = [{ role: "user" as const, content: "earlier" }];
+    const refused = await processMediaRequest("third", alice, history);
+
+    assert.match(refused.result, /You've used up today's assistant budget/);
+    assert.match(refused.result, /Simple commands still work/);
+    assert.equal(fakeAnthropic.messageCalls.length, calls);
+    assert.deepEqual(refused.messages.slice(0, 2), [...history, { role: "user", content: "third" }]);
+  });
+
+  it("still runs simple commands over budget", async () => {
+    const calls = fakeAnthropic.messageCalls.length;
+    const response = await processMediaRequest("show pending requests", requester("1", GUILD));
+
+    assert.match(response.result, /^You've used up today's assistant budget[^]*simple command:\n\n/);
+    assert.equal(fakeSeerr.calls("GET", "/api/v1/request").at(-1)?.query.get("filter"), "pending");
+    assert.equal(fakeAnthropic.messageCalls.length, calls);
+  });
+
+  it("applies the guild budget across users", async () => {
+    fakeAnthropic.script({ text: "Three." });
+    assert.equal((await processMediaRequest("hello", requester("2", GUILD))).result, "Three.");
+
+    const refused = await processMediaRequest("hello", requester("3", GUILD));
+    assert.match(refused.result, /This server has used up today's assistant budget/);
+
+    // Other servers and DMs have their own budget
+    fakeAnthropic.script({ text: "Four." });
+    assert.equal((await processMediaRequest("hello", requester("3"))).result, "Four.");
+  });
+});
+
+describe("usage report", () => {
+  it("totals tokens for one server, its top users and models", () => {
+    const report = usageTracker.formatReport(7, GUILD);
+    const today = new Date().toISOString().slice(0, 10);
+
+    assert.ok(report.startsWith("Token usage in this server, last 7 days (UTC):"));
+    assert.ok(report.includes(`${today}: 30 in / 30 out (3 calls)`), report);
+    assert.ok(report.includes("<@1>: 20 in / 20 out (2 calls)"));
+    assert.ok(report.includes("fake-model: 30 in / 30 out (3 calls)"));
+    assert.ok(!report.includes("<@3>"), "DM usage stays out of the server report");
+  });
+
+  it("includes DMs when reporting everything", () => {
+    const report = usageTracker.formatReport(1);
+    assert.ok(report.includes("Total: 40 in / 40 out (4 calls)"), report);
+  });
+});
@@ -0,0 +1,45 @@
+import { fakeSeerr, stopFakes } from "./helpers/setup.js";
+import assert from "node:assert/strict";
+import { setTimeout as sleep } from "node:timers/promises";
+import { after, describe, it } from "node:test";
+
+// Loaded after setup so config sees the fakes' URLs
+const { userLinks } = await import("../src/users.js");
+
+const users = Array.from({ length: 12 }, (_, i) => ({
+  id: i + 1,
+  email: `user${i + 1}@example.com`,
+  displayName: `User ${i + 1}`,
+  permissions: 0,
+  userType: 1,
+  // Only the first user has a Discord ID in the user list itself
+  settings: i === 0 ? { discordId: "2001" } : undefined,
+}));
+
+let inFlight = 0;
+let mostInFlight = 0;
+
+fakeSeerr.on("GET", "/api/v1/user", {
+  body: { pageInfo: { pages: 1, page: 1, results: users.length, pageSize: 100 }, results: users },
+});
+for (const user of users) {
+  fakeSeerr.on("GET", `/api/v1/user/${user.id}/settings/notifications`, async () => {
+    mostInFlight = Math.max(mostInFlight, ++inFlight);
+    await sleep(5);
+    inFlight--;
+    return { body: { discordId: user.id === 12 ? "2012" : "" } };
+  });
+}
+
+after(stopFakes);
+
+describe("userLinks", () => {
+  it("looks up notification settings a few users at a time, and only when needed", async () => {
+    assert.equal((await userLinks.resolve("2001"))?.id, 1);
+    assert.equal((await userLinks.resolve("2012"))?.id, 12);
+
+    assert.equal(fakeSeerr.calls("GET", "/api/v1/user/1/settings/notifications").length, 0);
+    assert.equal(fakeSeerr.calls("GET", "/api/v1/user/12/settings/notifications").length, 1);
+    assert.ok(mostInFlight <= 5, `${mostInFlight} settings requests ran at once`);
+  });
+});
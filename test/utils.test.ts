@@ -0,0 +1,102 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { formatMediaResult, getMissingSeasons, getSeasonStatuses } from "../src/utils.js";
+import { MediaStatus, RequestStatus, type DiscoverResult, type TvDetails } from "../src/types/index.js";
+import { loadFixture } from "./helpers/fake-server.js";
+
+const severance = loadFixture<TvDetails>("seerr-tv-severance.json");
+
+describe("formatMediaResult", () => {
+  const result = {
+    id: 27205,
+    title: "Inception",
+    releaseDate: "2010-07-15",
+    overview: "A thief who steals corporate secrets through dream-sharing technology.",
+    posterPath: "/inception.jpg",
+    voteAverage: 8.36,
+  } as DiscoverResult;
+
+  it("numbers the entry and includes rating, TMDB link and poster tag", () => {
+    const formatted = formatMediaResult(result, 2, "movie");
+
+    assert.ok(formatted.startsWith("3. Inception (2010)\nRating: 8.4/10\n"));
+    assert.ok(formatted.includes("https://www.themoviedb.org/movie/27205"));
+    assert.ok(formatted.endsWith("[POSTER:https://image.tmdb.org/t/p/w342/inception.jpg]"));
+  });
+
+  it("shows the media type and full date when asked", () => {
+    const formatted = formatMediaResult(result, 0, "movie", {
+      showMediaType: true,
+      useFullDate: true,
+    });
+    assert.ok(formatted.startsWith("1. Inception (2010-07-15) - Movie\n"));
+  });
+
+  it("falls back to TBA and N/A for unreleased titles", () => {
+    const formatted = formatMediaResult(
+      { id: 1, name: "Untitled", overview: "" } as DiscoverResult,
+      0,
+      "tv"
+    );
+    assert.ok(formatted.startsWith("1. Untitled (TBA)\nRating: N/A\n"));
+  });
+});
+
+describe("season statuses", () => {
+  it("skips specials and reports library availability per season", () => {
+    const statuses = getSeasonStatuses(severance);
+    assert.deepEqual(
+      [...statuses],
+      [
+        [1, MediaStatus.AVAILABLE],
+        [2, MediaStatus.UNKNOWN],
+      ]
+    );
+  });
+
+  it("lists seasons that are neither available nor requested as missing", () => {
+    assert.deepEqual(getMissingSeasons(severance), [2]);
+  });
+
+  it("treats seasons in a pending request as no longer missing", () => {
+    const withRequest: TvDetails = {
+      ...severance,
+      mediaInfo: {
+        ...severance.mediaInfo!,
+        requests: [
+          { id: 9, status: RequestStatus.PENDING, is4k: false, seasons: [{ seasonNumber: 2, status: 1 }] },
+        ],
+      },
+    };
+    assert.equal(getSeasonStatuses(withRequest).get(2), MediaStatus.PENDING);
+    assert.deepEqual(getMissingSeasons(withRequest), []);
+  });
+
+  it("leaves out seasons that haven't aired yet", () => {
+    const announced: TvDetails = {
+      ...severance,
+      seasons: [
+        ...severance.seasons,
+        { ...severance.seasons[2], id: 4, seasonNumber: 3, airDate: "2026-11-01" },
+        { ...severance.seasons[2], id: 5, seasonNumber: 4, airDate: undefined },
+      ],
+    };
+    assert.deepEqual(getMissingSeasons(announced, false, new Date("2026-10-19")), [2]);
+    assert.deepEqual(getMissingSeasons(announced, false, new Date("2026-11-01")), [2, 3]);
+  });
+
+  it("reads 4K availability and 4K requests separately", () => {
+    const in4k: TvDetails = {
+      ...severance,
+      mediaInfo: {
+        ...severance.mediaInfo!,
+        requests: [
+          { id: 9, status: RequestStatus.PENDING, is4k: true, seasons: [{ seasonNumber: 2, status: 1 }] },
+        ],
+      },
+    };
+    // Season 1 is only in the library in HD
+    assert.deepEqual(getMissingSeasons(in4k, true), [1]);
+    assert.deepEqual(getMissingSeasons(in4k), [2]);
+  });
+});
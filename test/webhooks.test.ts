@@ -0,0 +1,259 @@
+import { fakeSeerr, stopFakes } from "./helpers/setup.js";
+import { loadFixture } from "./helpers/fake-server.js";
+import assert from "node:assert/strict";
+import { writeFileSync } from "node:fs";
+import { createServer, type AddressInfo } from "node:net";
+import { setTimeout as sleep } from "node:timers/promises";
+import { after, before, describe, it } from "node:test";
+import type { ButtonInteraction, Client, EmbedBuilder } from "discord.js";
+import type { MediaRequestItem } from "../src/types/index.js";
+
+const SECRET = "test-webhook-secret";
+const APPROVAL_CHANNEL = "c-approvals";
+const REQUEST_CHANNEL = "c-requests";
+
+// Ask the OS for a free port, since config wants a fixed one
+async function findFreePort(): Promise<number> {
+  const server = createServer();
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  await new Promise((resolve) => server.close(resolve));
+  return port;
+}
+
+const port = await findFreePort();
+Object.assign(process.env, {
+  WEBHOOK_PORT: String(port),
+  WEBHOOK_SECRET: SECRET,
+  APPROVAL_CHANNEL_ID: APPROVAL_CHANNEL,
+});
+
+// Loaded after the webhook settings are in place, since config is read at import time
+const { startWebhookServer } = await import("../src/webhooks.js");
+const { approvalQueue, handleQueueInteraction } = await import("../src/queue.js");
+const { requestTracker } = await import("../src/tracking.js");
+const { settings } = await import("../src/settings.js");
+
+fakeSeerr
+  .on("GET", "/api/v1/request", {
+    body: { pageInfo: { pages: 0, page: 1, results: 0, pageSize: 100 }, results: [] },
+  })
+  .on("GET", "/api/v1/request/101", { body: loadFixture("seerr-request-severance.json") });
+
+interface SentMessage {
+  id: string;
+  channelId: string;
+  content?: string;
+  embeds: EmbedBuilder[];
+  components: unknown[];
+}
+
+interface MessageOptions {
+  content?: string;
+  embeds?: EmbedBuilder[];
+  components?: unknown[];
+}
+
+// Just enough of a Discord client to post, edit and DM
+function createFakeClient() {
+  const sent: SentMessage[] = [];
+  const dms: { userId: string; embeds: EmbedBuilder[] }[] = [];
+
+  const channel = (channelId: string) => ({
+    isSendable: () => true,
+    isTextBased: () => true,
+    async send(options: MessageOptions) {
+      const message = {
+        id: `m${sent.length + 1}`,
+        channelId,
+        content: options.content,
+        embeds: options.embeds ?? [],
+        components: options.components ?? [],
+        async edit(edit: MessageOptions) {
+          Object.assign(message, edit);
+        },
+      };
+      sent.push(message);
+      return message;
+    },
+    messages: { fetch: async (id: string) => sent.find((message) => message.id === id) },
+  });
+
+  const client = {
+    channels: { fetch: async (id: string) => channel(id) },
+    users: {
+      fetch: async (userId: string) => ({
+        send: async (options: MessageOptions) => dms.push({ userId, embeds: options.embeds ?? [] }),
+      }),
+    },
+  };
+  return { client: client as unknown as Client, sent, dms };
+}
+
+const discord = createFakeClient();
+const server = startWebhookServer(discord.client);
+
+before(() => approvalQueue.start(discord.client));
+
+after(async () => {
+  await new Promise((resolve) => server?.close(resolve));
+  await stopFakes();
+});
+
+function post(body: unknown, authorization: string | null = SECRET, path = "/webhook") {
+  return fetch(`http://127.0.0.1:${port}${path}`, {
+    method: "POST",
+    headers: authorization === null ? {} : { Authorization: authorization },
+    body: typeof body === "string" ? body : JSON.stringify(body),
+  });
+}
+
+// The webhook is acknowledged before it is handled
+async function until(check: () => boolean): Promise<void> {
+  for (let i = 0; i < 200 && !check(); i++) await sleep(10);
+  assert.ok(check(), "timed out waiting for the webhook to be handled");
+}
+
+function embedOf(message: { embeds: EmbedBuilder[] } | undefined) {
+  return message?.embeds[0]?.toJSON();
+}
+
+describe("webhook listener", () => {
+  it("rejects a missing or wrong secret", async () => {
+    const payload = loadFixture("webhook-media-pending.json");
+
+    assert.equal((await post(payload, null)).status, 401);
+    assert.equal((await post(payload, "wrong-secret")).status, 401);
+    assert.equal((await post(payload, `${SECRET}x`)).status, 401);
+
+    await sleep(50);
+    assert.equal(fakeSeerr.calls("GET", "/api/v1/request/101").length, 0);
+    assert.equal(discord.sent.length, 0);
+  });
+
+  it("rejects bodies that aren't JSON and unknown paths", async () => {
+    assert.equal((await post("{not json")).status, 400);
+    assert.equal((await post({}, SECRET, "/other")).status, 404);
+  });
+
+  it("posts a new pending request to the approval queue", async () => {
+    const response = await post(loadFixture("webhook-media-pending.json"));
+    assert.equal(response.status, 204);
+
+    await until(() => discord.sent.length === 1);
+    const [queued] = discord.sent;
+    assert.equal(queued.channelId, APPROVAL_CHANNEL);
+    assert.equal(embedOf(queued)?.title, "Severance (2022)");
+    assert.equal(queued.components.length, 1);
+  });
+
+  it("notifies the requester where they asked and resolves the queue entry", async () => {
+    requestTracker.track({
+      requestId: 101,
+      tmdbId: 95396,
+      mediaType: "tv",
+      discordId: "1001",
+      guildId: "g1",
+      channelId: REQUEST_CHANNEL,
+      createdAt: Date.now(),
+    });
+
+    await post(loadFixture("webhook-media-approved.json"));
+
+    await until(() => discord.sent.some((message) => message.channelId === REQUEST_CHANNEL));
+    const notice = discord.sent.find((message) => message.channelId === REQUEST_CHANNEL);
+    assert.equal(notice?.content, "<@1001>");
+    assert.equal(embedOf(notice)?.title, "Severance (2022) was approved");
+    assert.equal(embedOf(notice)?.url, "https://www.themoviedb.org/tv/95396");
+
+    await until(() => discord.sent[0].components.length === 0);
+    const field = embedOf(discord.sent[0])?.fields?.at(-1);
+    assert.equal(field?.name, "Approved");
+    assert.match(field?.value ?? "", /^by Seerr/);
+    assert.ok(requestTracker.get(101), "still tracked until it is available");
+  });
+
+  it("stops tracking a request once it is available", async () => {
+    await post(loadFixture("webhook-media-available.json"));
+
+    await until(() => requestTracker.get(101) === undefined);
+    const notices = discord.sent.filter((message) => message.channelId === REQUEST_CHANNEL);
+    assert.equal(embedOf(notices.at(-1))?.title, "Severance (2022) is now available");
+  });
+
+  it("DMs requesters the bot doesn't track by their Discord ID in Seerr", async () => {
+    await post(loadFixture("webhook-media-available.json"));
+
+    await until(() => discord.dms.length === 1);
+    assert.equal(discord.dms[0].userId, "1001");
+    assert.equal(embedOf(discord.dms[0])?.title, "Severance (2022) is now available");
+  });
+});
+
+describe("approval queue", () => {
+  it("credits the admin when Seerr's webhook arrives before their approval returns", async () => {
+    await post(loadFixture("webhook-media-pending.json"));
+    await until(() => discord.sent.filter((m) => m.channelId === APPROVAL_CHANNEL).length === 2);
+    const queued = discord.sent.filter((m) => m.channelId === APPROVAL_CHANNEL)[1];
+
+    await approvalQueue.decide(101, "approved", "<@2002>", async () => {
+      await post(loadFixture("webhook-media-approved.json"));
+      await until(() => queued.components.length === 0);
+    });
+
+    const field = embedOf(queued)?.fields?.at(-1);
+    assert.equal(field?.name, "Approved");
+    assert.match(field?.value ?? "", /^by <@2002>/);
+  });
+
+  it("refuses button approvals where approvals are turned off", async () => {
+    const guildId = "111111111111111111";
+    writeFileSync(
+      process.env.CONFIG_FILE!,
+      JSON.stringify({
+        guilds: {
+          [guildId]: { managerRoleIds: ["444"], features: { approvals: false } },
+        },
+      })
+    );
+    settings.reload();
+
+    const replies: string[] = [];
+    const interaction = {
+      customId: "queue-approve:101",
+      user: { id: "2002", tag: "admin" },
+      guildId,
+      channelId: APPROVAL_CHANNEL,
+      member: { roles: ["444"] },
+      reply: async ({ content }: { content: string }) => replies.push(content),
+      deferUpdate: async () => assert.fail("should not act on the request"),
+    };
+    await handleQueueInteraction(interaction as unknown as ButtonInteraction);
+
+    assert.deepEqual(replies, [
+      "Approving and declining requests is turned off in this server or channel.",
+    ]);
+    assert.equal(fakeSeerr.calls("POST", "/api/v1/request/101/approve").length, 0);
+    writeFileSync(process.env.CONFIG_FILE!, "{}");
+    settings.reload();
+  });
+
+  it("reconciles pending requests past Seerr's first page", async () => {
+    const severance = loadFixture<MediaRequestItem>("seerr-request-severance.json");
+    const pending = Array.from({ length: 101 }, (_, i) => ({ ...severance, id: 1000 + i }));
+    fakeSeerr.on("GET", "/api/v1/request", (request) => {
+      const skip = Number(request.query.get("skip"));
+      const take = Number(request.query.get("take"));
+      const pageInfo = { pages: 2, page: skip / take + 1, results: pending.length, pageSize: take };
+      return { body: { pageInfo, results: pending.slice(skip, skip + take) } };
+    });
+    const posted = () => discord.sent.filter((m) => m.channelId === APPROVAL_CHANNEL).length;
+    const before = posted();
+
+    await approvalQueue.reconcile();
+
+    assert.equal(posted() - before, 101);
+    const skips = fakeSeerr.calls("GET", "/api/v1/request").map((call) => call.query.get("skip"));
+    assert.deepEqual(skips.slice(-2), ["0", "100"]);
+  });
+});